@@ -0,0 +1,56 @@
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+import type { MiddlewareHandler } from "hono";
+import { cors } from "hono/cors";
+
+const LOCAL_HOSTNAMES = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+// NOTE: comma-separated origins for dev servers that aren't on localhost,
+// such as a LAN address or a tunnel
+const getConfiguredOrigins = (): string[] =>
+  (process.env.REACT_GRAB_ALLOWED_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/$/, ""))
+    .filter(Boolean);
+
+// NOTE: browsers send Origin on every cross-origin request and WebSocket
+// upgrade, so a missing one is a local tool like curl or an editor extension
+export const isAllowedOrigin = (origin: string | undefined): boolean => {
+  if (!origin) return true;
+  if (getConfiguredOrigins().includes(origin)) return true;
+
+  try {
+    const { protocol, hostname } = new URL(origin);
+    return (
+      (protocol === "http:" || protocol === "https:") &&
+      (LOCAL_HOSTNAMES.has(hostname) || hostname.endsWith(".localhost"))
+    );
+  } catch {
+    return false;
+  }
+};
+
+// NOTE: CORS headers only hide responses, a cross-site form POST still runs,
+// so other origins are refused before they reach a route
+export const restrictOrigins = (): MiddlewareHandler => {
+  const corsMiddleware = cors({
+    origin: (origin) => (isAllowedOrigin(origin) ? origin : null),
+  });
+
+  return async (context, next) => {
+    if (!isAllowedOrigin(context.req.header("origin"))) {
+      return context.json({ error: "Origin not allowed" }, 403);
+    }
+    return corsMiddleware(context, next);
+  };
+};
+
+export const rejectDisallowedUpgrade = (
+  request: IncomingMessage,
+  socket: Duplex,
+): boolean => {
+  if (isAllowedOrigin(request.headers.origin)) return false;
+
+  socket.end("HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n");
+  return true;
+};
@@ -0,0 +1,348 @@
+import type {
+  AgentContext,
+  AgentEvent,
+  AgentPermissionDecision,
+  AgentProvider,
+  AgentSessionStorage,
+  init,
+  PageCommand,
+  ReactGrabAPI,
+} from "react-grab/core";
+
+const CURSOR_STORAGE_KEY = "react-grab:agent-event-cursors";
+const PAGE_BRIDGE_PATH = "/bridge";
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+export interface AgentServerProviderOptions<T> {
+  serverUrl: string;
+  defaultOptions?: T;
+  getOptions?: () => Partial<T>;
+  storage?: AgentSessionStorage | null;
+}
+
+interface SSEEvent {
+  eventType: string;
+  data: string;
+  id?: string;
+}
+
+const parseSSEEvent = (eventBlock: string): SSEEvent => {
+  let eventType = "";
+  let data = "";
+  let id: string | undefined;
+  for (const line of eventBlock.split("\n")) {
+    if (line.startsWith("event:")) eventType = line.slice(6).trim();
+    else if (line.startsWith("data:")) data = line.slice(5).trim();
+    else if (line.startsWith("id:")) id = line.slice(3).trim();
+  }
+  return { eventType, data, id };
+};
+
+const loadEventCursors = (
+  storage: AgentSessionStorage | null,
+): Record<string, number> => {
+  try {
+    const data = storage?.getItem(CURSOR_STORAGE_KEY);
+    return data ? (JSON.parse(data) as Record<string, number>) : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveEventCursor = (
+  storage: AgentSessionStorage | null,
+  sessionId: string,
+  cursor: number | undefined,
+) => {
+  const cursors = loadEventCursors(storage);
+  if (cursor === undefined) delete cursors[sessionId];
+  else cursors[sessionId] = cursor;
+
+  try {
+    storage?.setItem(CURSOR_STORAGE_KEY, JSON.stringify(cursors));
+  } catch {}
+};
+
+const parseAgentEvent = ({ eventType, data }: SSEEvent): AgentEvent | null => {
+  try {
+    const parsed = JSON.parse(data) as unknown;
+    if (parsed && typeof parsed === "object" && "type" in parsed) {
+      return parsed as AgentEvent;
+    }
+  } catch {}
+
+  // NOTE: older servers send plain text payloads tagged by the SSE event name
+  if (eventType === "error") {
+    return { type: "error", message: data || "Agent error", code: "agent" };
+  }
+  return data ? { type: "status", message: data } : null;
+};
+
+async function* streamSSE(
+  stream: ReadableStream<Uint8Array>,
+  onEventId?: (eventId: number) => void,
+): AsyncGenerator<AgentEvent> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (value) buffer += decoder.decode(value, { stream: true });
+
+      let boundary;
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const sseEvent = parseSSEEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+
+        if (sseEvent.eventType === "done") return;
+        if (sseEvent.id) onEventId?.(Number(sseEvent.id));
+        const agentEvent = parseAgentEvent(sseEvent);
+        if (agentEvent) yield agentEvent;
+      }
+
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function* streamFromServer(
+  endpointUrl: string,
+  body: unknown,
+  signal: AbortSignal,
+  onEventId?: (eventId: number) => void,
+) {
+  const response = await fetch(endpointUrl, {
+    method: body === undefined ? "GET" : "POST",
+    headers:
+      body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Server error: ${response.status}`);
+  }
+
+  if (!response.body) {
+    throw new Error("No response body");
+  }
+
+  yield* streamSSE(response.body, onEventId);
+}
+
+const postJson = async (endpointUrl: string, body?: unknown) => {
+  const response = await fetch(endpointUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body ?? {}),
+  });
+
+  if (!response.ok) {
+    const { error } = (await response.json().catch(() => ({}))) as {
+      error?: string;
+    };
+    throw new Error(error ?? `Server error: ${response.status}`);
+  }
+};
+
+export const createAgentServerProvider = <T>(
+  providerOptions: AgentServerProviderOptions<T>,
+): AgentProvider<T> => {
+  const { serverUrl, defaultOptions, getOptions } = providerOptions;
+  const storage =
+    providerOptions.storage ??
+    (typeof sessionStorage === "undefined" ? null : sessionStorage);
+
+  const mergeOptions = (contextOptions?: T): T =>
+    ({
+      ...(defaultOptions ?? {}),
+      ...(getOptions?.() ?? {}),
+      ...(contextOptions ?? {}),
+    }) as T;
+
+  const getSessionUrl = (sessionId: string) =>
+    `${serverUrl}/agent/${encodeURIComponent(sessionId)}`;
+
+  // NOTE: the server keeps runs alive when the page goes away, so only an
+  // explicit abort (dismiss, escape) should stop the agent
+  const streamSession = (
+    sessionId: string | undefined,
+    endpointUrl: string,
+    body: unknown,
+    signal: AbortSignal,
+  ) => {
+    if (!sessionId) return streamFromServer(endpointUrl, body, signal);
+
+    signal.addEventListener(
+      "abort",
+      () => {
+        saveEventCursor(storage, sessionId, undefined);
+        postJson(`${getSessionUrl(sessionId)}/abort`).catch(() => {});
+      },
+      { once: true },
+    );
+
+    return streamFromServer(endpointUrl, body, signal, (eventId) =>
+      saveEventCursor(storage, sessionId, eventId),
+    );
+  };
+
+  return {
+    send: async function* (context: AgentContext<T>, signal: AbortSignal) {
+      const mergedContext = {
+        ...context,
+        options: mergeOptions(context.options),
+      };
+      yield* streamSession(
+        context.sessionId,
+        `${serverUrl}/agent`,
+        mergedContext,
+        signal,
+      );
+    },
+
+    resume: async function* (sessionId: string, signal: AbortSignal) {
+      const after = loadEventCursors(storage)[sessionId] ?? 0;
+
+      yield "Resuming...";
+      yield* streamSession(
+        sessionId,
+        `${getSessionUrl(sessionId)}/events?after=${after}`,
+        undefined,
+        signal,
+      );
+    },
+
+    followUp: async function* (
+      sessionId: string,
+      prompt: string,
+      signal: AbortSignal,
+    ) {
+      yield* streamSession(
+        sessionId,
+        `${serverUrl}/agent/follow-up`,
+        { sessionId, prompt },
+        signal,
+      );
+    },
+
+    undo: (sessionId: string) =>
+      postJson(`${serverUrl}/agent/undo`, { sessionId }),
+
+    respondToPermission: (
+      sessionId: string,
+      requestId: string,
+      decision: AgentPermissionDecision,
+    ) =>
+      postJson(`${getSessionUrl(sessionId)}/permission`, {
+        requestId,
+        decision,
+      }),
+
+    supportsResume: true,
+  };
+};
+
+const parsePageCommand = (data: unknown): PageCommand | null => {
+  if (typeof data !== "string") return null;
+  try {
+    const command = JSON.parse(data) as Partial<PageCommand>;
+    return typeof command.type === "string" ? (command as PageCommand) : null;
+  } catch {
+    return null;
+  }
+};
+
+const runPageCommand = async (api: ReactGrabAPI, command: PageCommand) => {
+  if (command.type === "reload") {
+    window.location.reload();
+    return;
+  }
+
+  const elements = await api.findComponentElements(command.target);
+  if (elements.length === 0) return;
+
+  if (command.type === "scroll-into-view") {
+    elements[0].scrollIntoView({ block: "center", behavior: "smooth" });
+  }
+  api.highlightElement(elements);
+};
+
+// NOTE: the server pushes commands (highlight, scroll into view, reload) over
+// this socket; it reconnects with backoff so a server started after the page
+// is still picked up
+export const connectPageBridge = (api: ReactGrabAPI, serverUrl: string) => {
+  const bridgeUrl = `${serverUrl.replace(/^http/, "ws")}${PAGE_BRIDGE_PATH}`;
+  let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+  let reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+  let socket: WebSocket | null = null;
+  let isDisposed = false;
+
+  const connect = () => {
+    const nextSocket = new WebSocket(bridgeUrl);
+    socket = nextSocket;
+    nextSocket.addEventListener("open", () => {
+      reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+    });
+    nextSocket.addEventListener("message", (event) => {
+      const command = parsePageCommand(event.data);
+      if (command) void runPageCommand(api, command);
+    });
+    nextSocket.addEventListener("close", () => {
+      if (isDisposed) return;
+      reconnectTimeout = setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    });
+  };
+
+  connect();
+
+  return () => {
+    isDisposed = true;
+    clearTimeout(reconnectTimeout);
+    socket?.close();
+  };
+};
+
+declare global {
+  interface Window {
+    __REACT_GRAB__?: ReturnType<typeof init>;
+  }
+}
+
+interface AttachAgentProviderOptions {
+  // NOTE: when set, the page also opens the server's command bridge
+  serverUrl?: string;
+}
+
+export const attachAgentProvider = (
+  provider: AgentProvider,
+  { serverUrl }: AttachAgentProviderOptions = {},
+) => {
+  if (typeof window === "undefined") return;
+
+  const attach = (api: ReactGrabAPI) => {
+    api.setAgent({ provider, storage: sessionStorage });
+    if (serverUrl) connectPageBridge(api, serverUrl);
+  };
+
+  const api = window.__REACT_GRAB__;
+  if (api) {
+    attach(api);
+    return;
+  }
+
+  window.addEventListener(
+    "react-grab:init",
+    (event: Event) => {
+      const customEvent = event as CustomEvent<ReactGrabAPI>;
+      attach(customEvent.detail);
+    },
+    { once: true },
+  );
+};
@@ -0,0 +1,209 @@
+import { spawn } from "node:child_process";
+import { existsSync } from "node:fs";
+import path from "node:path";
+
+export interface OpenFileRequest {
+  filePath: string;
+  lineNumber?: number;
+  columnNumber?: number;
+}
+
+type EditorArgsBuilder = (
+  filePath: string,
+  lineNumber: number,
+  columnNumber: number,
+) => string[];
+
+const buildGotoArgs: EditorArgsBuilder = (
+  filePath,
+  lineNumber,
+  columnNumber,
+) => ["--goto", `${filePath}:${lineNumber}:${columnNumber}`];
+
+const buildPositionSuffixArgs: EditorArgsBuilder = (
+  filePath,
+  lineNumber,
+  columnNumber,
+) => [`${filePath}:${lineNumber}:${columnNumber}`];
+
+const buildJetBrainsArgs: EditorArgsBuilder = (
+  filePath,
+  lineNumber,
+  columnNumber,
+) => ["--line", String(lineNumber), "--column", String(columnNumber), filePath];
+
+const EDITOR_ARGS_BUILDERS: Record<string, EditorArgsBuilder> = {
+  cursor: buildGotoArgs,
+  code: buildGotoArgs,
+  "code-insiders": buildGotoArgs,
+  codium: buildGotoArgs,
+  windsurf: buildGotoArgs,
+  zed: buildPositionSuffixArgs,
+  subl: buildPositionSuffixArgs,
+  webstorm: buildJetBrainsArgs,
+  idea: buildJetBrainsArgs,
+  phpstorm: buildJetBrainsArgs,
+};
+
+// NOTE: the server runs detached from any terminal, so these would start
+// invisibly in the background instead of opening a window
+const TERMINAL_EDITORS = new Set([
+  "vi",
+  "vim",
+  "nvim",
+  "nano",
+  "emacs",
+  "micro",
+  "helix",
+  "hx",
+  "kak",
+  "joe",
+  "ed",
+]);
+
+// NOTE: probed in order when no editor is configured through the environment
+const KNOWN_EDITOR_COMMANDS = ["cursor", "code", "zed", "webstorm"];
+
+const getCommandExtensions = (command: string): string[] => {
+  if (process.platform !== "win32") return [""];
+  return path.extname(command) ? [""] : [".exe", ".cmd", ".bat"];
+};
+
+// NOTE: resolves commands ourselves so Windows .cmd shims (how VS Code and
+// Cursor install on PATH) can be run without handing the arguments to a shell
+const findCommandPath = (command: string): string | null => {
+  const directories =
+    path.basename(command) !== command
+      ? [""]
+      : (process.env.PATH ?? "").split(path.delimiter).filter(Boolean);
+
+  for (const directory of directories) {
+    for (const extension of getCommandExtensions(command)) {
+      const commandPath = path.join(directory, `${command}${extension}`);
+      if (existsSync(commandPath)) return commandPath;
+    }
+  }
+  return null;
+};
+
+const getEditorName = (command: string): string =>
+  path
+    .basename(command)
+    .replace(/\.(cmd|exe|bat)$/i, "")
+    .toLowerCase();
+
+const getEditorCommand = (): string[] => {
+  const configuredEditors = [
+    process.env.REACT_GRAB_EDITOR,
+    process.env.VISUAL,
+    process.env.EDITOR,
+  ]
+    .map((editor) => editor?.trim())
+    .filter((editor): editor is string => Boolean(editor))
+    .map((editor) => editor.split(/\s+/));
+
+  // NOTE: VISUAL and EDITOR are often set to a terminal editor for git, so
+  // those fall through to detection instead of failing every open
+  const guiEditor = configuredEditors.find(
+    ([command]) => !TERMINAL_EDITORS.has(getEditorName(command)),
+  );
+  if (guiEditor) return guiEditor;
+
+  const detectedEditor = KNOWN_EDITOR_COMMANDS.find(
+    (command) => findCommandPath(command) !== null,
+  );
+  if (detectedEditor) return [detectedEditor];
+
+  const [terminalEditor] = configuredEditors;
+  throw new Error(
+    terminalEditor
+      ? `${getEditorName(terminalEditor[0])} runs in a terminal and can't be opened from the browser. Set REACT_GRAB_EDITOR to a GUI editor command`
+      : "No editor found. Set REACT_GRAB_EDITOR or EDITOR to your editor command",
+  );
+};
+
+const isInsideRoot = (filePath: string, projectRoot: string): boolean => {
+  const relativePath = path.relative(projectRoot, filePath);
+  return (
+    relativePath !== "" &&
+    !relativePath.startsWith("..") &&
+    !path.isAbsolute(relativePath)
+  );
+};
+
+// NOTE: Node refuses to spawn .cmd and .bat files directly, so they go through
+// cmd.exe with every argument quoted; characters cmd.exe still expands inside
+// quotes are rejected instead of escaped
+const buildWindowsShimCommand = (
+  commandPath: string,
+  args: string[],
+): [string, string[]] => {
+  const unsafeArg = [commandPath, ...args].find((arg) => /["%\r\n]/.test(arg));
+  if (unsafeArg) {
+    throw new Error(`Can't pass ${unsafeArg} to ${path.basename(commandPath)}`);
+  }
+
+  const commandLine = [commandPath, ...args].map((arg) => `"${arg}"`).join(" ");
+  return [
+    process.env.ComSpec ?? "cmd.exe",
+    ["/d", "/s", "/c", `"${commandLine}"`],
+  ];
+};
+
+export const resolveProjectFile = (
+  filePath: string,
+  projectRoot: string,
+): string | null => {
+  const candidates = [path.resolve(projectRoot, filePath)];
+  // HACK: bundlers like Vite report project-relative paths with a leading
+  // slash, so retry those against the project root
+  if (path.isAbsolute(filePath)) {
+    candidates.push(path.resolve(projectRoot, filePath.replace(/^[/\\]+/, "")));
+  }
+
+  return (
+    candidates.find(
+      (candidate) =>
+        isInsideRoot(candidate, projectRoot) && existsSync(candidate),
+    ) ?? null
+  );
+};
+
+export const launchEditor = async (
+  resolvedFilePath: string,
+  lineNumber = 1,
+  columnNumber = 1,
+): Promise<string> => {
+  const [command, ...commandArgs] = getEditorCommand();
+  const editorName = getEditorName(command);
+  const commandPath = findCommandPath(command);
+  if (!commandPath) {
+    throw new Error(`Editor command ${command} was not found on PATH`);
+  }
+
+  const buildArgs = EDITOR_ARGS_BUILDERS[editorName];
+  const editorArgs = [
+    ...commandArgs,
+    ...(buildArgs
+      ? buildArgs(resolvedFilePath, lineNumber, columnNumber)
+      : [resolvedFilePath]),
+  ];
+  const isWindowsShim =
+    process.platform === "win32" && /\.(cmd|bat)$/i.test(commandPath);
+  const [spawnCommand, spawnArgs] = isWindowsShim
+    ? buildWindowsShimCommand(commandPath, editorArgs)
+    : [commandPath, editorArgs];
+
+  return new Promise((resolve, reject) => {
+    const editorProcess = spawn(spawnCommand, spawnArgs, {
+      detached: true,
+      stdio: "ignore",
+      windowsVerbatimArguments: isWindowsShim,
+    });
+    editorProcess.once("error", reject);
+    editorProcess.once("spawn", () => {
+      editorProcess.unref();
+      resolve(editorName);
+    });
+  });
+};
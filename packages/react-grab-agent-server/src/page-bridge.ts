@@ -0,0 +1,71 @@
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+import type { ComponentTarget, PageCommand } from "react-grab/core";
+import { rejectDisallowedUpgrade } from "./allowed-origins.js";
+import { acceptWebSocket, type WebSocketConnection } from "./websocket.js";
+
+export const PAGE_BRIDGE_PATH = "/bridge";
+
+export interface PageBridge {
+  send: (command: PageCommand) => number;
+  getPageCount: () => number;
+  handleUpgrade: (
+    request: IncomingMessage,
+    socket: Duplex,
+    head: Buffer,
+  ) => void;
+}
+
+const isComponentTarget = (value: unknown): value is ComponentTarget =>
+  typeof value === "object" &&
+  value !== null &&
+  (typeof (value as ComponentTarget).componentName === "string" ||
+    typeof (value as ComponentTarget).fileName === "string");
+
+export const isPageCommand = (value: unknown): value is PageCommand => {
+  if (typeof value !== "object" || value === null) return false;
+
+  const command = value as PageCommand;
+  if (command.type === "reload") return true;
+  return (
+    (command.type === "highlight" || command.type === "scroll-into-view") &&
+    isComponentTarget(command.target)
+  );
+};
+
+// NOTE: the server can't tell which tab an agent is talking about, so
+// commands go to every connected page and each one resolves what it renders
+export const createPageBridge = (): PageBridge => {
+  const connections = new Set<WebSocketConnection>();
+
+  const send = (command: PageCommand) => {
+    const message = JSON.stringify(command);
+    connections.forEach((connection) => connection.send(message));
+    return connections.size;
+  };
+
+  const handleUpgrade = (
+    request: IncomingMessage,
+    socket: Duplex,
+    head: Buffer,
+  ) => {
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+    if (pathname !== PAGE_BRIDGE_PATH) {
+      socket.destroy();
+      return;
+    }
+    if (rejectDisallowedUpgrade(request, socket)) return;
+
+    const connection = acceptWebSocket(request, socket, head);
+    if (!connection) return;
+
+    connections.add(connection);
+    connection.onClose(() => connections.delete(connection));
+  };
+
+  return {
+    send,
+    getPageCount: () => connections.size,
+    handleUpgrade,
+  };
+};
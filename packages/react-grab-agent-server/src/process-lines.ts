@@ -0,0 +1,50 @@
+import { spawn } from "node:child_process";
+import { createInterface } from "node:readline";
+
+interface ReadProcessLinesOptions {
+  cwd?: string;
+  input?: string;
+  signal?: AbortSignal;
+}
+
+export async function* readProcessLines(
+  command: string,
+  args: string[],
+  options: ReadProcessLinesOptions = {},
+): AsyncGenerator<string> {
+  const childProcess = spawn(command, args, {
+    cwd: options.cwd,
+    stdio: ["pipe", "pipe", "pipe"],
+    env: { ...process.env },
+    signal: options.signal,
+  });
+
+  let processError: Error | undefined;
+  childProcess.on("error", (error) => {
+    processError = error;
+  });
+  const exitCode = new Promise<number | null>((resolve) => {
+    childProcess.on("close", resolve);
+  });
+
+  childProcess.stderr.on("data", (chunk: Buffer) => {
+    console.error(`[${command} stderr]:`, chunk.toString());
+  });
+
+  // NOTE: a CLI that exits before reading all of its input closes the pipe,
+  // the exit code already reports that so EPIPE isn't raised on its own
+  childProcess.stdin.on("error", (error: NodeJS.ErrnoException) => {
+    if (error.code !== "EPIPE") processError ??= error;
+  });
+  childProcess.stdin.end(options.input ?? "");
+
+  for await (const line of createInterface({ input: childProcess.stdout })) {
+    if (line.trim()) yield line;
+  }
+
+  const code = await exitCode;
+  if (processError) throw processError;
+  if (code !== 0) {
+    throw new Error(`${command} exited with code ${code}`);
+  }
+}
@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { startGrabReceiver } from "./receiver.js";
+
+startGrabReceiver().catch(console.error);
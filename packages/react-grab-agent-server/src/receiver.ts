@@ -0,0 +1,167 @@
+import type { IncomingMessage, Server } from "node:http";
+import type { Duplex } from "node:stream";
+import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
+import { serve } from "@hono/node-server";
+import type { Grab } from "react-grab/core";
+import { rejectDisallowedUpgrade, restrictOrigins } from "./allowed-origins.js";
+import { isPortInUse } from "./is-port-in-use.js";
+import { acceptWebSocket } from "./websocket.js";
+
+export { acceptWebSocket, type WebSocketConnection } from "./websocket.js";
+export { isAllowedOrigin, rejectDisallowedUpgrade } from "./allowed-origins.js";
+
+export const DEFAULT_RECEIVER_PORT = 4722;
+const DEFAULT_MAX_GRABS = 50;
+const WEBSOCKET_PATH = "/grab/ws";
+
+export interface GrabReceiverOptions {
+  maxGrabs?: number;
+  onGrab?: (grab: Grab) => void;
+}
+
+export interface GrabReceiver {
+  app: Hono;
+  getGrabs: () => Grab[];
+  addGrab: (grab: Grab) => void;
+  subscribe: (listener: (grab: Grab) => void) => () => void;
+  handleUpgrade: (
+    request: IncomingMessage,
+    socket: Duplex,
+    head: Buffer,
+  ) => void;
+}
+
+interface GrabMessage {
+  type: "grab";
+  grab: Grab;
+}
+
+const isGrab = (value: unknown): value is Grab =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as Grab).content === "string" &&
+  Array.isArray((value as Grab).elements);
+
+const parseGrabMessage = (message: string): Grab | null => {
+  try {
+    const data = JSON.parse(message) as Partial<GrabMessage>;
+    return data.type === "grab" && isGrab(data.grab) ? data.grab : null;
+  } catch {
+    return null;
+  }
+};
+
+// NOTE: a reference receiver for the page's HTTP and WebSocket grab sinks.
+// Editor extensions and terminal tools read grabs back through GET /grabs,
+// GET /grabs/latest or the GET /grabs/events SSE stream
+export const createGrabReceiver = ({
+  maxGrabs = DEFAULT_MAX_GRABS,
+  onGrab,
+}: GrabReceiverOptions = {}): GrabReceiver => {
+  const grabs: Grab[] = [];
+  const listeners = new Set<(grab: Grab) => void>();
+
+  const receiveGrab = (grab: Grab) => {
+    grabs.unshift(grab);
+    grabs.splice(maxGrabs);
+    onGrab?.(grab);
+    listeners.forEach((listener) => listener(grab));
+  };
+
+  const subscribe = (listener: (grab: Grab) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const app = new Hono();
+
+  // NOTE: grabs carry page source and prompts that tools hand to agents, so
+  // other sites can neither read them nor slip in their own
+  app.use("/*", restrictOrigins());
+
+  app.post("/grab", async (context) => {
+    const grab = await context.req.json<unknown>().catch(() => null);
+    if (!isGrab(grab)) {
+      return context.json({ error: "Invalid grab" }, 400);
+    }
+
+    receiveGrab(grab);
+    return context.json({ id: grab.id });
+  });
+
+  app.get("/grabs", (context) => context.json(grabs));
+
+  app.get("/grabs/latest", (context) =>
+    grabs[0]
+      ? context.json(grabs[0])
+      : context.json({ error: "No grabs yet" }, 404),
+  );
+
+  app.get("/grabs/events", (context) =>
+    streamSSE(context, async (stream) => {
+      const unsubscribe = subscribe((grab) => {
+        void stream.writeSSE({
+          data: JSON.stringify(grab),
+          event: "grab",
+          id: grab.id,
+        });
+      });
+      await new Promise<void>((resolve) => stream.onAbort(resolve));
+      unsubscribe();
+    }),
+  );
+
+  app.get("/health", (context) => context.json({ status: "ok" }));
+
+  const handleUpgrade = (
+    request: IncomingMessage,
+    socket: Duplex,
+    head: Buffer,
+  ) => {
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+    if (pathname !== WEBSOCKET_PATH) {
+      socket.destroy();
+      return;
+    }
+    if (rejectDisallowedUpgrade(request, socket)) return;
+
+    acceptWebSocket(request, socket, head)?.onMessage((message) => {
+      const grab = parseGrabMessage(message);
+      if (grab) receiveGrab(grab);
+    });
+  };
+
+  return {
+    app,
+    getGrabs: () => [...grabs],
+    addGrab: receiveGrab,
+    subscribe,
+    handleUpgrade,
+  };
+};
+
+const logGrab = (grab: Grab) => {
+  console.log(`\n[React Grab] Grab from ${grab.url}\n${grab.content}`);
+};
+
+export const startGrabReceiver = async (
+  port: number = DEFAULT_RECEIVER_PORT,
+  options: GrabReceiverOptions = { onGrab: logGrab },
+) => {
+  if (await isPortInUse(port)) {
+    return;
+  }
+
+  const receiver = createGrabReceiver(options);
+  const server = serve({ fetch: receiver.app.fetch, port }) as Server;
+  server.on("upgrade", receiver.handleUpgrade);
+  console.log(`[React Grab] Grab receiver started on port ${port}`);
+  return receiver;
+};
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  startGrabReceiver().catch(console.error);
+}
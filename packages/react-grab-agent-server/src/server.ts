@@ -0,0 +1,588 @@
+import { randomUUID } from "node:crypto";
+import type { Server } from "node:http";
+import { Hono } from "hono";
+import { streamSSE, type SSEStreamingApi } from "hono/streaming";
+import { serve } from "@hono/node-server";
+import type {
+  AgentApprovalMode,
+  AgentAttachment,
+  AgentContext,
+  AgentEvent,
+  AgentPermissionDecision,
+  AgentPermissionRequest,
+} from "react-grab/core";
+import {
+  launchEditor,
+  resolveProjectFile,
+  type OpenFileRequest,
+} from "./open-file.js";
+import {
+  createWorkspaceSnapshot,
+  getConflictingFilePaths,
+  getWorkspaceChanges,
+  restoreSessionChanges,
+  type SessionChanges,
+  type WorkspaceSnapshot,
+} from "./workspace-snapshot.js";
+import { isPortInUse } from "./is-port-in-use.js";
+import { restrictOrigins } from "./allowed-origins.js";
+import {
+  createPageBridge,
+  isPageCommand,
+  type PageBridge,
+} from "./page-bridge.js";
+
+export { readProcessLines } from "./process-lines.js";
+export { createPageBridge, type PageBridge } from "./page-bridge.js";
+
+export interface AgentRunContext<T = unknown> {
+  prompt: string;
+  // NOTE: only set on the first run of a session, adapters that can't send
+  // images may ignore them
+  attachments: AgentAttachment[];
+  options?: T;
+  cwd: string;
+  resumeId?: string;
+  onResumeId: (resumeId: string) => void;
+  approvalMode: AgentApprovalMode;
+  // NOTE: resolves true right away in "bypass" mode, otherwise once the user
+  // answers in the overlay
+  requestPermission: (
+    request: Omit<AgentPermissionRequest, "id">,
+  ) => Promise<boolean>;
+}
+
+export interface AgentAdapter<T = unknown> {
+  name: string;
+  getCwd?: (options?: T) => string | undefined;
+  run: (
+    context: AgentRunContext<T>,
+    signal: AbortSignal,
+  ) => AsyncIterable<AgentEvent>;
+}
+
+// NOTE: finished sessions stay around for reattaching, follow-ups and undo,
+// but only for a while and only so many, since each holds its event log and
+// the original content of every file it changed
+const SESSION_TTL_MS = 60 * 60 * 1000;
+const MAX_SESSION_STATES = 50;
+
+const PERMISSION_DECISIONS = new Set<unknown>([
+  "allow",
+  "always-allow",
+  "deny",
+] satisfies AgentPermissionDecision[]);
+
+interface FollowUpRequest {
+  sessionId: string;
+  prompt: string;
+}
+
+interface UndoRequest {
+  sessionId: string;
+}
+
+interface PermissionResponseRequest {
+  requestId: string;
+  decision: AgentPermissionDecision;
+}
+
+interface AgentSessionState<T> {
+  options?: T;
+  resumeId?: string;
+  workspaceRoot?: string;
+  changes?: SessionChanges;
+  events: AgentEvent[];
+  isRunning: boolean;
+  finishedAt?: number;
+  abortController?: AbortController;
+  listeners: Set<() => void>;
+  approvalMode: AgentApprovalMode;
+  allowedTools: Set<string>;
+  pendingPermissions: Map<string, (decision: AgentPermissionDecision) => void>;
+}
+
+const createSessionState = <T>(
+  options: T | undefined,
+  approvalMode: AgentApprovalMode = "bypass",
+): AgentSessionState<T> => ({
+  options,
+  events: [],
+  isRunning: false,
+  listeners: new Set(),
+  approvalMode,
+  allowedTools: new Set(),
+  pendingPermissions: new Map(),
+});
+
+const writeAgentEvent = (
+  stream: SSEStreamingApi,
+  event: AgentEvent,
+  eventId?: number,
+) =>
+  stream.writeSSE({
+    data: JSON.stringify(event),
+    event: event.type,
+    id: eventId === undefined ? undefined : String(eventId),
+  });
+
+const emitSessionEvent = <T>(
+  sessionState: AgentSessionState<T>,
+  event: AgentEvent,
+) => {
+  sessionState.events.push(event);
+  sessionState.listeners.forEach((listener) => listener());
+};
+
+// NOTE: events are numbered from 1 across every run of a session, so a
+// reloaded page can pass the last id it saw as `after`
+const streamSessionEvents = async <T>(
+  stream: SSEStreamingApi,
+  sessionState: AgentSessionState<T>,
+  after: number,
+) => {
+  let wake: (() => void) | undefined;
+  const listener = () => wake?.();
+  sessionState.listeners.add(listener);
+  stream.onAbort(listener);
+
+  let cursor = after;
+  try {
+    while (!stream.aborted) {
+      while (cursor < sessionState.events.length) {
+        const event = sessionState.events[cursor];
+        cursor += 1;
+        await writeAgentEvent(stream, event, cursor);
+      }
+
+      if (!sessionState.isRunning) break;
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+  } finally {
+    sessionState.listeners.delete(listener);
+  }
+
+  if (!stream.aborted) {
+    await writeAgentEvent(stream, { type: "done" });
+  }
+};
+
+const parseEventCursor = (value: string | undefined): number => {
+  const cursor = Number.parseInt(value ?? "", 10);
+  return Number.isNaN(cursor) || cursor < 0 ? 0 : cursor;
+};
+
+export const createAgentServer = <T>(
+  adapter: AgentAdapter<T>,
+  pageBridge: PageBridge = createPageBridge(),
+) => {
+  const app = new Hono();
+  const sessionStates = new Map<string, AgentSessionState<T>>();
+  const workspaceRuns = new Map<string, Promise<void>>();
+
+  const pruneSessionStates = () => {
+    const finishedSessions = [...sessionStates]
+      .filter(([, sessionState]) => !sessionState.isRunning)
+      .sort(
+        ([, sessionState], [, otherSessionState]) =>
+          (sessionState.finishedAt ?? 0) - (otherSessionState.finishedAt ?? 0),
+      );
+    const expiredBefore = Date.now() - SESSION_TTL_MS;
+    let excessCount = sessionStates.size - MAX_SESSION_STATES;
+
+    for (const [sessionId, sessionState] of finishedSessions) {
+      if ((sessionState.finishedAt ?? 0) > expiredBefore && excessCount <= 0) {
+        break;
+      }
+      sessionStates.delete(sessionId);
+      excessCount--;
+    }
+  };
+
+  const emitFileChanges = async (
+    sessionState: AgentSessionState<T>,
+    snapshot: WorkspaceSnapshot,
+  ) => {
+    try {
+      const { changes, files, changedFilePaths } = await getWorkspaceChanges(
+        snapshot,
+        sessionState.changes,
+      );
+      sessionState.workspaceRoot = snapshot.root;
+      sessionState.changes = changes;
+      emitSessionEvent(sessionState, { type: "file-changes", files });
+
+      // NOTE: flashes what this run touched on every open page, resolved
+      // there through the components each file defines
+      for (const file of files) {
+        if (file.status === "deleted") continue;
+        if (!changedFilePaths.includes(file.path)) continue;
+        pageBridge.send({ type: "highlight", target: { fileName: file.path } });
+      }
+    } catch (error) {
+      console.error("[React Grab] Could not diff workspace:", error);
+    }
+  };
+
+  const requestPermission = (
+    sessionState: AgentSessionState<T>,
+    request: Omit<AgentPermissionRequest, "id">,
+    signal: AbortSignal,
+  ) =>
+    new Promise<boolean>((resolve) => {
+      if (
+        sessionState.approvalMode === "bypass" ||
+        sessionState.allowedTools.has(request.toolName)
+      ) {
+        resolve(true);
+        return;
+      }
+
+      const id = randomUUID();
+      const settle = (decision: AgentPermissionDecision) => {
+        if (!sessionState.pendingPermissions.delete(id)) return;
+        if (decision === "always-allow") {
+          sessionState.allowedTools.add(request.toolName);
+        }
+        emitSessionEvent(sessionState, {
+          type: "permission-decision",
+          id,
+          decision,
+        });
+        resolve(decision !== "deny");
+      };
+
+      sessionState.pendingPermissions.set(id, settle);
+      signal.addEventListener("abort", () => settle("deny"), { once: true });
+      emitSessionEvent(sessionState, {
+        type: "permission-request",
+        request: { id, ...request },
+      });
+    });
+
+  // NOTE: runs in the same directory are chained, so two sessions never edit
+  // the same files at once even when several pages share one server
+  const acquireWorkspace = async (
+    sessionState: AgentSessionState<T>,
+    cwd: string,
+    signal: AbortSignal,
+  ) => {
+    const previousRun = workspaceRuns.get(cwd);
+    let release = () => {};
+    const currentRun = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const queuedRun = (previousRun ?? Promise.resolve()).then(() => currentRun);
+    workspaceRuns.set(cwd, queuedRun);
+
+    // NOTE: a queued run that gives up still settles after the run ahead of
+    // it, so the entry is only dropped once the whole chain has finished
+    void queuedRun.finally(() => {
+      if (workspaceRuns.get(cwd) === queuedRun) workspaceRuns.delete(cwd);
+    });
+
+    if (previousRun) {
+      emitSessionEvent(sessionState, {
+        type: "status",
+        message: "Waiting for another session in this workspace…",
+      });
+      await new Promise<void>((resolve) => {
+        void previousRun.then(resolve);
+        signal.addEventListener("abort", () => resolve(), { once: true });
+      });
+    }
+
+    return release;
+  };
+
+  // NOTE: runs are detached from the request that started them, so the agent
+  // keeps working when the page reloads and the client can reattach later
+  const runAgentSession = async (
+    sessionState: AgentSessionState<T>,
+    prompt: string,
+    shouldSnapshot: boolean,
+    attachments: AgentAttachment[] = [],
+  ) => {
+    const abortController = new AbortController();
+    sessionState.abortController = abortController;
+    sessionState.isRunning = true;
+
+    const { options } = sessionState;
+    const cwd = adapter.getCwd?.(options) ?? process.cwd();
+
+    let releaseWorkspace = () => {};
+    let snapshot: WorkspaceSnapshot | undefined;
+
+    try {
+      releaseWorkspace = await acquireWorkspace(
+        sessionState,
+        cwd,
+        abortController.signal,
+      );
+      abortController.signal.throwIfAborted();
+
+      // NOTE: every run takes a fresh snapshot and only the files it changed
+      // are kept afterwards, merged with earlier runs so diffs and undo
+      // cover the whole session
+      if (shouldSnapshot) {
+        snapshot = await createWorkspaceSnapshot(cwd);
+      }
+
+      const events = adapter.run(
+        {
+          prompt,
+          attachments,
+          options,
+          cwd,
+          resumeId: sessionState.resumeId,
+          onResumeId: (resumeId) => {
+            sessionState.resumeId = resumeId;
+          },
+          approvalMode: sessionState.approvalMode,
+          requestPermission: (request) =>
+            requestPermission(sessionState, request, abortController.signal),
+        },
+        abortController.signal,
+      );
+
+      for await (const event of events) {
+        if (event.type === "done") break;
+        emitSessionEvent(sessionState, event);
+      }
+    } catch (error) {
+      // NOTE: stopping a run, including one still waiting for the workspace,
+      // ends the stream without reporting the abort as an agent error
+      if (!abortController.signal.aborted) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        emitSessionEvent(sessionState, {
+          type: "error",
+          message: errorMessage,
+          code: "agent",
+        });
+      }
+    }
+
+    if (snapshot) await emitFileChanges(sessionState, snapshot);
+    releaseWorkspace();
+    sessionState.abortController = undefined;
+    sessionState.isRunning = false;
+    sessionState.finishedAt = Date.now();
+    sessionState.listeners.forEach((listener) => listener());
+    setTimeout(pruneSessionStates, SESSION_TTL_MS).unref();
+  };
+
+  app.use("/*", restrictOrigins());
+
+  app.post("/agent", async (context) => {
+    const body = await context.req.json<AgentContext<T>>().catch(() => null);
+    if (!body) {
+      return context.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    const { content, prompt, options, sessionId, approvalMode, attachments } =
+      body;
+
+    if (sessionId && sessionStates.get(sessionId)?.isRunning) {
+      return context.json({ error: "Session is already running" }, 409);
+    }
+
+    const sessionState = createSessionState(options, approvalMode);
+    if (sessionId) sessionStates.set(sessionId, sessionState);
+    void runAgentSession(
+      sessionState,
+      `${prompt}\n\n${content}`,
+      Boolean(sessionId),
+      attachments,
+    );
+    pruneSessionStates();
+
+    return streamSSE(context, async (stream) => {
+      // NOTE: without a session id nothing can reattach, so a disconnect
+      // cancels the run like before
+      if (!sessionId) {
+        stream.onAbort(() => sessionState.abortController?.abort());
+      }
+      await streamSessionEvents(stream, sessionState, 0);
+    });
+  });
+
+  app.post("/agent/follow-up", async (context) => {
+    const body = await context.req.json<FollowUpRequest>().catch(() => null);
+    if (!body) {
+      return context.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    const { sessionId, prompt } = body;
+    const sessionState = sessionStates.get(sessionId);
+
+    if (!sessionState?.resumeId) {
+      return context.json({ error: "Session not found" }, 404);
+    }
+
+    if (sessionState.isRunning) {
+      return context.json({ error: "Session is already running" }, 409);
+    }
+
+    const after = sessionState.events.length;
+    void runAgentSession(sessionState, prompt, true);
+
+    return streamSSE(context, (stream) =>
+      streamSessionEvents(stream, sessionState, after),
+    );
+  });
+
+  app.get("/agent/:sessionId/events", (context) => {
+    const sessionState = sessionStates.get(context.req.param("sessionId"));
+
+    if (!sessionState) {
+      return context.json({ error: "Session not found" }, 404);
+    }
+
+    const after = parseEventCursor(context.req.query("after"));
+    return streamSSE(context, (stream) =>
+      streamSessionEvents(stream, sessionState, after),
+    );
+  });
+
+  app.post("/agent/:sessionId/abort", (context) => {
+    const sessionState = sessionStates.get(context.req.param("sessionId"));
+
+    if (!sessionState) {
+      return context.json({ error: "Session not found" }, 404);
+    }
+
+    sessionState.abortController?.abort();
+    return context.json({ status: "ok" });
+  });
+
+  app.post("/agent/:sessionId/permission", async (context) => {
+    const body = await context.req
+      .json<PermissionResponseRequest>()
+      .catch(() => null);
+    if (!body) {
+      return context.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    const { requestId, decision } = body;
+    if (!PERMISSION_DECISIONS.has(decision)) {
+      return context.json({ error: "Invalid permission decision" }, 400);
+    }
+    const settle = sessionStates
+      .get(context.req.param("sessionId"))
+      ?.pendingPermissions.get(requestId);
+
+    if (!settle) {
+      return context.json({ error: "Permission request not found" }, 404);
+    }
+
+    settle(decision);
+    return context.json({ status: "ok" });
+  });
+
+  app.post("/agent/undo", async (context) => {
+    const body = await context.req.json<UndoRequest>().catch(() => null);
+    if (!body) {
+      return context.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    const { sessionId } = body;
+    const sessionState = sessionStates.get(sessionId);
+
+    if (!sessionState?.changes || !sessionState.workspaceRoot) {
+      return context.json({ error: "Session not found" }, 404);
+    }
+
+    if (sessionState.isRunning) {
+      return context.json({ error: "Session is still running" }, 409);
+    }
+
+    try {
+      const conflictingFiles = await getConflictingFilePaths(
+        sessionState.workspaceRoot,
+        sessionState.changes,
+      );
+      if (conflictingFiles.length > 0) {
+        return context.json(
+          {
+            error: `Changed since the session finished: ${conflictingFiles.join(", ")}`,
+            files: conflictingFiles,
+          },
+          409,
+        );
+      }
+
+      const files = await restoreSessionChanges(
+        sessionState.workspaceRoot,
+        sessionState.changes,
+      );
+      sessionState.changes = new Map();
+      return context.json({ status: "ok", files });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      return context.json({ error: errorMessage }, 500);
+    }
+  });
+
+  app.post("/open-file", async (context) => {
+    const body = await context.req.json<OpenFileRequest>().catch(() => null);
+    if (!body) {
+      return context.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    const { filePath, lineNumber, columnNumber } = body;
+
+    const resolvedFilePath = filePath
+      ? resolveProjectFile(filePath, process.cwd())
+      : null;
+    if (!resolvedFilePath) {
+      return context.json({ error: "File not found in project" }, 404);
+    }
+
+    try {
+      const editor = await launchEditor(
+        resolvedFilePath,
+        lineNumber,
+        columnNumber,
+      );
+      return context.json({ status: "ok", editor });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      return context.json({ error: errorMessage }, 500);
+    }
+  });
+
+  app.post("/bridge/command", async (context) => {
+    const command = await context.req.json<unknown>().catch(() => null);
+    if (!isPageCommand(command)) {
+      return context.json({ error: "Invalid page command" }, 400);
+    }
+
+    return context.json({ status: "ok", pages: pageBridge.send(command) });
+  });
+
+  app.get("/health", (context) => {
+    return context.json({ status: "ok", provider: adapter.name });
+  });
+
+  return app;
+};
+
+export const startAgentServer = async <T>(
+  adapter: AgentAdapter<T>,
+  port: number,
+) => {
+  if (await isPortInUse(port)) {
+    return;
+  }
+
+  const pageBridge = createPageBridge();
+  const app = createAgentServer(adapter, pageBridge);
+  const server = serve({ fetch: app.fetch, port }) as Server;
+  server.on("upgrade", pageBridge.handleUpgrade);
+  console.log(`[React Grab] Server started on port ${port}`);
+};
@@ -0,0 +1,200 @@
+import { createHash } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024;
+const MASK_LENGTH = 4;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+export interface WebSocketConnection {
+  send: (message: string) => void;
+  close: () => void;
+  onMessage: (listener: (message: string) => void) => void;
+  onClose: (listener: () => void) => void;
+}
+
+const encodeFrame = (opcode: number, payload: Buffer): Buffer => {
+  const lengthBytes =
+    payload.length < 126 ? 0 : payload.length < 0x10000 ? 2 : 8;
+  const header = Buffer.alloc(2 + lengthBytes);
+  header[0] = 0x80 | opcode;
+
+  if (lengthBytes === 0) {
+    header[1] = payload.length;
+  } else if (lengthBytes === 2) {
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+};
+
+interface DecodedFrame {
+  isFinal: boolean;
+  opcode: number;
+  payload: Buffer;
+  frameLength: number;
+}
+
+// NOTE: returns null until the buffer holds a whole frame, so chunks are
+// accumulated across data events
+export const decodeFrame = (buffer: Buffer): DecodedFrame | null => {
+  if (buffer.length < 2) return null;
+
+  // NOTE: RFC 6455 requires clients to mask every frame
+  if ((buffer[1] & 0x80) === 0) {
+    throw new Error("WebSocket client frame is not masked");
+  }
+  let payloadLength = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (payloadLength === 126) {
+    if (buffer.length < 4) return null;
+    payloadLength = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (payloadLength === 127) {
+    if (buffer.length < 10) return null;
+    payloadLength = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+
+  if (payloadLength > MAX_MESSAGE_BYTES) {
+    throw new Error("WebSocket message is too large");
+  }
+
+  const frameLength = offset + MASK_LENGTH + payloadLength;
+  if (buffer.length < frameLength) return null;
+
+  const payload = Buffer.from(
+    buffer.subarray(offset + MASK_LENGTH, frameLength),
+  );
+  const mask = buffer.subarray(offset, offset + MASK_LENGTH);
+  for (let index = 0; index < payload.length; index++) {
+    payload[index] ^= mask[index % 4];
+  }
+
+  return {
+    isFinal: (buffer[0] & 0x80) !== 0,
+    opcode: buffer[0] & 0x0f,
+    payload,
+    frameLength,
+  };
+};
+
+// NOTE: a minimal RFC 6455 server for the local bridges (text messages,
+// ping/pong and close), so the servers don't need a WebSocket dependency
+export const acceptWebSocket = (
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer = Buffer.alloc(0),
+): WebSocketConnection | null => {
+  const key = request.headers["sec-websocket-key"];
+  if (
+    typeof key !== "string" ||
+    request.headers.upgrade?.toLowerCase() !== "websocket"
+  ) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return null;
+  }
+
+  const acceptKey = createHash("sha1")
+    .update(`${key}${WEBSOCKET_GUID}`)
+    .digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${acceptKey}`,
+      "",
+      "",
+    ].join("\r\n"),
+  );
+
+  const messageListeners = new Set<(message: string) => void>();
+  const closeListeners = new Set<() => void>();
+  let buffered: Buffer = head;
+  let fragments: Buffer[] = [];
+  let fragmentBytes = 0;
+  let isClosed = false;
+
+  const close = () => {
+    if (isClosed) return;
+    isClosed = true;
+    if (socket.writable) socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+    closeListeners.forEach((listener) => listener());
+  };
+
+  // NOTE: throws on anything outside the text-only protocol, which closes the
+  // connection in the data listener
+  const handleFrame = (frame: DecodedFrame) => {
+    switch (frame.opcode) {
+      case OPCODE_TEXT:
+      case OPCODE_CONTINUATION:
+        // NOTE: a text frame can't start while a fragmented message is still
+        // arriving, and a continuation needs a message to continue
+        if ((frame.opcode === OPCODE_TEXT) === fragments.length > 0) {
+          throw new Error("Unexpected WebSocket continuation frame");
+        }
+        fragmentBytes += frame.payload.length;
+        if (fragmentBytes > MAX_MESSAGE_BYTES) {
+          throw new Error("WebSocket message is too large");
+        }
+        fragments.push(frame.payload);
+        if (frame.isFinal) {
+          const message = Buffer.concat(fragments).toString("utf8");
+          fragments = [];
+          fragmentBytes = 0;
+          messageListeners.forEach((listener) => listener(message));
+        }
+        return;
+      case OPCODE_PING:
+        socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+        return;
+      case OPCODE_CLOSE:
+        close();
+        return;
+      default:
+        throw new Error(`Unsupported WebSocket opcode ${frame.opcode}`);
+    }
+  };
+
+  socket.on("data", (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    try {
+      let frame = decodeFrame(buffered);
+      while (frame && !isClosed) {
+        buffered = buffered.subarray(frame.frameLength);
+        handleFrame(frame);
+        frame = decodeFrame(buffered);
+      }
+    } catch {
+      close();
+    }
+  });
+  socket.on("close", close);
+  socket.on("error", close);
+
+  return {
+    send: (message) => {
+      if (isClosed) return;
+      socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(message, "utf8")));
+    },
+    close,
+    onMessage: (listener) => {
+      messageListeners.add(listener);
+    },
+    onClose: (listener) => {
+      closeListeners.add(listener);
+    },
+  };
+};
@@ -0,0 +1,400 @@
+import { createHash } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import type { AgentFileChange } from "react-grab/core";
+
+interface SnapshotFile {
+  hash: string;
+  content: Buffer;
+}
+
+export interface WorkspaceSnapshot {
+  root: string;
+  files: Map<string, SnapshotFile>;
+  oversizedFilePaths: Set<string>;
+}
+
+// NOTE: only what undo needs is kept per changed path: the content before the
+// session touched it (null when the session created it) and the hash it had
+// when the session last finished (null when the session deleted it)
+interface SessionFileChange {
+  original: SnapshotFile | null;
+  currentHash: string | null;
+}
+
+export type SessionChanges = Map<string, SessionFileChange>;
+
+interface WorkspaceChanges {
+  changes: SessionChanges;
+  files: AgentFileChange[];
+  // NOTE: only what this run touched, while files covers the whole session
+  changedFilePaths: string[];
+}
+
+type DiffOperation = { type: " " | "-" | "+"; line: string };
+
+const IGNORED_DIRECTORIES = new Set([
+  ".git",
+  ".next",
+  ".turbo",
+  ".cache",
+  ".vercel",
+  ".svelte-kit",
+  "node_modules",
+  "dist",
+  "build",
+  "out",
+  "coverage",
+]);
+const MAX_SNAPSHOT_FILE_SIZE_BYTES = 1024 * 1024;
+const MAX_LCS_CELLS = 4_000_000;
+const MAX_DIFF_LINES = 500;
+const DIFF_CONTEXT_LINES = 3;
+
+const hashContent = (content: Buffer): string =>
+  createHash("sha1").update(content).digest("hex");
+
+const isBinaryContent = (content: Buffer): boolean =>
+  content.subarray(0, 8000).includes(0);
+
+const collectWorkspaceFiles = async (
+  root: string,
+  directory = root,
+  snapshot: WorkspaceSnapshot = {
+    root,
+    files: new Map(),
+    oversizedFilePaths: new Set(),
+  },
+): Promise<WorkspaceSnapshot> => {
+  const entries = await readdir(directory, { withFileTypes: true }).catch(
+    () => [],
+  );
+
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name);
+
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRECTORIES.has(entry.name)) {
+        await collectWorkspaceFiles(root, entryPath, snapshot);
+      }
+      continue;
+    }
+    if (!entry.isFile()) continue;
+
+    const filePath = path.relative(root, entryPath).split(path.sep).join("/");
+    try {
+      const { size } = await stat(entryPath);
+      if (size > MAX_SNAPSHOT_FILE_SIZE_BYTES) {
+        snapshot.oversizedFilePaths.add(filePath);
+        continue;
+      }
+      const content = await readFile(entryPath);
+      snapshot.files.set(filePath, { hash: hashContent(content), content });
+    } catch {}
+  }
+
+  return snapshot;
+};
+
+const readWorkspaceFile = async (
+  root: string,
+  filePath: string,
+): Promise<SnapshotFile | null> => {
+  try {
+    const content = await readFile(path.join(root, filePath));
+    return { hash: hashContent(content), content };
+  } catch {
+    return null;
+  }
+};
+
+const splitLines = (text: string | null): string[] => {
+  if (!text) return [];
+  const lines = text.split("\n");
+  if (lines.at(-1) === "") lines.pop();
+  return lines;
+};
+
+const diffLines = (before: string[], after: string[]): DiffOperation[] => {
+  let prefixLength = 0;
+  while (
+    prefixLength < before.length &&
+    prefixLength < after.length &&
+    before[prefixLength] === after[prefixLength]
+  ) {
+    prefixLength++;
+  }
+
+  let suffixLength = 0;
+  while (
+    suffixLength < before.length - prefixLength &&
+    suffixLength < after.length - prefixLength &&
+    before[before.length - 1 - suffixLength] ===
+      after[after.length - 1 - suffixLength]
+  ) {
+    suffixLength++;
+  }
+
+  const removed = before.slice(prefixLength, before.length - suffixLength);
+  const added = after.slice(prefixLength, after.length - suffixLength);
+  const middle: DiffOperation[] = [];
+
+  // NOTE: the LCS table is quadratic, so large rewrites fall back to a plain
+  // remove-then-add block instead of a minimal diff
+  if (removed.length * added.length > MAX_LCS_CELLS) {
+    middle.push(
+      ...removed.map((line): DiffOperation => ({ type: "-", line })),
+      ...added.map((line): DiffOperation => ({ type: "+", line })),
+    );
+  } else {
+    const columns = added.length + 1;
+    const lcsLengths = new Uint32Array((removed.length + 1) * columns);
+    for (let row = removed.length - 1; row >= 0; row--) {
+      for (let column = added.length - 1; column >= 0; column--) {
+        lcsLengths[row * columns + column] =
+          removed[row] === added[column]
+            ? lcsLengths[(row + 1) * columns + column + 1] + 1
+            : Math.max(
+                lcsLengths[(row + 1) * columns + column],
+                lcsLengths[row * columns + column + 1],
+              );
+      }
+    }
+
+    let row = 0;
+    let column = 0;
+    while (row < removed.length || column < added.length) {
+      if (
+        row < removed.length &&
+        column < added.length &&
+        removed[row] === added[column]
+      ) {
+        middle.push({ type: " ", line: removed[row] });
+        row++;
+        column++;
+      } else if (
+        column >= added.length ||
+        (row < removed.length &&
+          lcsLengths[(row + 1) * columns + column] >=
+            lcsLengths[row * columns + column + 1])
+      ) {
+        middle.push({ type: "-", line: removed[row] });
+        row++;
+      } else {
+        middle.push({ type: "+", line: added[column] });
+        column++;
+      }
+    }
+  }
+
+  return [
+    ...before
+      .slice(0, prefixLength)
+      .map((line): DiffOperation => ({ type: " ", line })),
+    ...middle,
+    ...before
+      .slice(before.length - suffixLength)
+      .map((line): DiffOperation => ({ type: " ", line })),
+  ];
+};
+
+const formatHunkRange = (start: number, count: number): string =>
+  count === 1 ? String(start) : `${count === 0 ? start - 1 : start},${count}`;
+
+const createUnifiedDiff = (
+  filePath: string,
+  before: string | null,
+  after: string | null,
+): string => {
+  const operations = diffLines(splitLines(before), splitLines(after));
+  const lines = [
+    `--- ${before === null ? "/dev/null" : `a/${filePath}`}`,
+    `+++ ${after === null ? "/dev/null" : `b/${filePath}`}`,
+  ];
+
+  const oldLineNumbers: number[] = [];
+  const newLineNumbers: number[] = [];
+  let oldLineNumber = 1;
+  let newLineNumber = 1;
+  for (const operation of operations) {
+    oldLineNumbers.push(oldLineNumber);
+    newLineNumbers.push(newLineNumber);
+    if (operation.type !== "+") oldLineNumber++;
+    if (operation.type !== "-") newLineNumber++;
+  }
+
+  let index = 0;
+  while (index < operations.length) {
+    if (operations[index].type === " ") {
+      index++;
+      continue;
+    }
+
+    let lastChangeIndex = index;
+    for (let scan = index; scan < operations.length; scan++) {
+      if (operations[scan].type !== " ") lastChangeIndex = scan;
+      else if (scan - lastChangeIndex > DIFF_CONTEXT_LINES * 2) break;
+    }
+
+    const hunkStart = Math.max(0, index - DIFF_CONTEXT_LINES);
+    const hunkEnd = Math.min(
+      operations.length,
+      lastChangeIndex + DIFF_CONTEXT_LINES + 1,
+    );
+    const hunk = operations.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((operation) => operation.type !== "+").length;
+    const newCount = hunk.filter((operation) => operation.type !== "-").length;
+
+    const oldRange = formatHunkRange(oldLineNumbers[hunkStart], oldCount);
+    const newRange = formatHunkRange(newLineNumbers[hunkStart], newCount);
+
+    lines.push(
+      `@@ -${oldRange} +${newRange} @@`,
+      ...hunk.map((operation) => `${operation.type}${operation.line}`),
+    );
+    index = hunkEnd;
+  }
+
+  if (lines.length > MAX_DIFF_LINES) {
+    const omittedLineCount = lines.length - MAX_DIFF_LINES;
+    return [
+      ...lines.slice(0, MAX_DIFF_LINES),
+      `… ${omittedLineCount} more lines`,
+    ].join("\n");
+  }
+  return lines.join("\n");
+};
+
+const createFileChange = (
+  filePath: string,
+  before: SnapshotFile | undefined,
+  after: SnapshotFile | undefined,
+): AgentFileChange => {
+  const status = !before ? "added" : !after ? "deleted" : "modified";
+  const isBinary = [before, after].some(
+    (file) => file && isBinaryContent(file.content),
+  );
+
+  return {
+    path: filePath,
+    status,
+    diff: isBinary
+      ? `Binary file ${status}`
+      : createUnifiedDiff(
+          filePath,
+          before ? before.content.toString("utf8") : null,
+          after ? after.content.toString("utf8") : null,
+        ),
+  };
+};
+
+export const createWorkspaceSnapshot = (
+  root: string,
+): Promise<WorkspaceSnapshot> => collectWorkspaceFiles(root);
+
+// NOTE: files over the size limit have no content to compare or restore, so
+// they are left out of the changes instead of looking added or deleted
+const getChangedFilePaths = (
+  snapshot: WorkspaceSnapshot,
+  currentSnapshot: WorkspaceSnapshot,
+): string[] =>
+  [...new Set([...snapshot.files.keys(), ...currentSnapshot.files.keys()])]
+    .filter(
+      (filePath) =>
+        !snapshot.oversizedFilePaths.has(filePath) &&
+        !currentSnapshot.oversizedFilePaths.has(filePath) &&
+        snapshot.files.get(filePath)?.hash !==
+          currentSnapshot.files.get(filePath)?.hash,
+    )
+    .sort();
+
+const getSortedChanges = (
+  changes: SessionChanges,
+): [string, SessionFileChange][] =>
+  [...changes].sort(([filePath], [otherFilePath]) =>
+    filePath < otherFilePath ? -1 : 1,
+  );
+
+// NOTE: merges what a run changed since its snapshot into the session's
+// earlier changes, keeping the oldest original so diffs and undo cover every
+// run; the snapshot itself can be dropped afterwards
+export const getWorkspaceChanges = async (
+  snapshot: WorkspaceSnapshot,
+  previousChanges: SessionChanges = new Map(),
+): Promise<WorkspaceChanges> => {
+  const currentSnapshot = await collectWorkspaceFiles(snapshot.root);
+  const changes: SessionChanges = new Map(previousChanges);
+  const changedFilePaths = getChangedFilePaths(snapshot, currentSnapshot);
+
+  for (const filePath of changedFilePaths) {
+    if (changes.has(filePath)) continue;
+    changes.set(filePath, {
+      original: snapshot.files.get(filePath) ?? null,
+      currentHash: null,
+    });
+  }
+
+  const files: AgentFileChange[] = [];
+  for (const [filePath, { original }] of getSortedChanges(changes)) {
+    const currentFile = currentSnapshot.files.get(filePath);
+
+    if (
+      currentSnapshot.oversizedFilePaths.has(filePath) ||
+      original?.hash === currentFile?.hash
+    ) {
+      changes.delete(filePath);
+      continue;
+    }
+
+    changes.set(filePath, { original, currentHash: currentFile?.hash ?? null });
+    files.push(createFileChange(filePath, original ?? undefined, currentFile));
+  }
+
+  return { changes, files, changedFilePaths };
+};
+
+// NOTE: files edited again after the session finished would lose that work
+// on undo, so the caller refuses to restore when any are returned
+export const getConflictingFilePaths = async (
+  root: string,
+  changes: SessionChanges,
+): Promise<string[]> => {
+  const sortedChanges = getSortedChanges(changes);
+  const currentFiles = await Promise.all(
+    sortedChanges.map(([filePath]) => readWorkspaceFile(root, filePath)),
+  );
+
+  return sortedChanges
+    .filter(
+      ([, { currentHash }], index) =>
+        (currentFiles[index]?.hash ?? null) !== currentHash,
+    )
+    .map(([filePath]) => filePath);
+};
+
+export const restoreSessionChanges = async (
+  root: string,
+  changes: SessionChanges,
+): Promise<string[]> => {
+  const sortedChanges = getSortedChanges(changes);
+
+  for (const [filePath, { original }] of sortedChanges) {
+    const absolutePath = path.join(root, filePath);
+
+    if (original) {
+      await mkdir(path.dirname(absolutePath), { recursive: true });
+      await writeFile(absolutePath, original.content);
+    } else {
+      await rm(absolutePath, { force: true });
+    }
+  }
+
+  return sortedChanges.map(([filePath]) => filePath);
+};
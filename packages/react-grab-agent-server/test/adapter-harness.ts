@@ -0,0 +1,118 @@
+import {
+  mkdir,
+  mkdtemp,
+  readFile,
+  realpath,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { Hono } from "hono";
+import type { AgentEvent } from "react-grab/core";
+
+interface FakeCliOptions {
+  fixturePath?: string;
+  exitCode?: number;
+}
+
+interface GrabRequestOverrides {
+  options?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface FakeCli {
+  workspace: string;
+  readArgs: () => Promise<string[]>;
+  readCwd: () => Promise<string>;
+  readStdin: () => Promise<string>;
+  cleanup: () => Promise<void>;
+}
+
+// NOTE: the fake binary is a shell script that records its arguments, cwd and
+// stdin, then replays a captured JSON-lines fixture, so adapters run their
+// real spawn and parsing code without the CLI installed
+export const createFakeCli = async (
+  command: string,
+  { fixturePath, exitCode = 0 }: FakeCliOptions = {},
+): Promise<FakeCli> => {
+  // NOTE: realpath so recorded cwds match on macOS, where tmpdir is a symlink
+  const directory = await realpath(
+    await mkdtemp(path.join(tmpdir(), "react-grab-fake-cli-")),
+  );
+  const binDirectory = path.join(directory, "bin");
+  const workspace = path.join(directory, "workspace");
+  const argsPath = path.join(directory, "args.txt");
+  const stdinPath = path.join(directory, "stdin.txt");
+  const cwdPath = path.join(directory, "cwd.txt");
+
+  await mkdir(binDirectory);
+  await mkdir(workspace);
+  await writeFile(
+    path.join(binDirectory, command),
+    [
+      "#!/bin/sh",
+      `printf '%s\\n' "$@" > "${argsPath}"`,
+      `pwd > "${cwdPath}"`,
+      `cat > "${stdinPath}"`,
+      fixturePath ? `cat "${fixturePath}"` : "",
+      `exit ${exitCode}`,
+    ].join("\n"),
+    { mode: 0o755 },
+  );
+
+  const originalPath = process.env.PATH;
+  process.env.PATH = `${binDirectory}${path.delimiter}${originalPath}`;
+
+  return {
+    workspace,
+    readArgs: async () =>
+      (await readFile(argsPath, "utf8")).split("\n").slice(0, -1),
+    readCwd: async () => (await readFile(cwdPath, "utf8")).trim(),
+    readStdin: () => readFile(stdinPath, "utf8"),
+    cleanup: async () => {
+      process.env.PATH = originalPath;
+      await rm(directory, { recursive: true, force: true });
+    },
+  };
+};
+
+export const getFixturePath = (testFileUrl: string, name: string): string =>
+  fileURLToPath(new URL(`./fixtures/${name}`, testFileUrl));
+
+export const postJson = (
+  app: Hono,
+  requestPath: string,
+  body: unknown,
+): Promise<Response> =>
+  Promise.resolve(
+    app.request(requestPath, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+  );
+
+// NOTE: posts the grab every adapter test starts from, with the fake CLI's
+// workspace in the `workspace` option that adapters read in getCwd
+export const sendGrab = (
+  app: Hono,
+  fakeCli: FakeCli,
+  { options, ...body }: GrabRequestOverrides = {},
+): Promise<Response> =>
+  postJson(app, "/agent", {
+    content: "<button>Save</button>",
+    prompt: "Make it red",
+    ...body,
+    options: { workspace: fakeCli.workspace, ...options },
+  });
+
+export const readAgentEvents = async (
+  response: Response,
+): Promise<AgentEvent[]> =>
+  (await response.text())
+    .split("\n\n")
+    .map((block) => block.split("\n").find((line) => line.startsWith("data:")))
+    .filter((line): line is string => Boolean(line))
+    .map((line) => JSON.parse(line.slice(5)) as AgentEvent);
@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { readProcessLines } from "../src/process-lines.js";
+
+const collectLines = async (lines: AsyncIterable<string>) => {
+  const collected: string[] = [];
+  for await (const line of lines) collected.push(line);
+  return collected;
+};
+
+describe("readProcessLines", () => {
+  it("yields non-empty stdout lines", async () => {
+    assert.deepEqual(
+      await collectLines(
+        readProcessLines("sh", ["-c", "cat; printf '\\nlast\\n'"], {
+          input: "first\n",
+        }),
+      ),
+      ["first", "last"],
+    );
+  });
+
+  it("reports the exit code when the process exits before reading its input", async () => {
+    await assert.rejects(
+      collectLines(
+        readProcessLines("sh", ["-c", "exit 3"], {
+          input: "x".repeat(4 * 1024 * 1024),
+        }),
+      ),
+      { message: "sh exited with code 3" },
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { PageCommand } from "react-grab/core";
+import type { PageBridge } from "../src/page-bridge.js";
+import { createAgentServer, type AgentAdapter } from "../src/server.js";
+import { postJson } from "./adapter-harness.js";
+
+interface HeldRun {
+  started: Promise<void>;
+  finish: () => void;
+}
+
+// NOTE: each prompt blocks inside the adapter until the test finishes it, so
+// the order runs start in shows how the workspace queue behaves
+const createHeldAdapter = (cwd: string) => {
+  const startedPrompts: string[] = [];
+  const runs = new Map<
+    string,
+    { markStarted: () => void; finished: Promise<void> }
+  >();
+
+  const holdRun = (prompt: string): HeldRun => {
+    let markStarted = () => {};
+    let finish = () => {};
+    const started = new Promise<void>((resolve) => {
+      markStarted = resolve;
+    });
+    const finished = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+    runs.set(prompt, { markStarted, finished });
+    return { started, finish };
+  };
+
+  const adapter: AgentAdapter = {
+    name: "held",
+    getCwd: () => cwd,
+    run: async function* (context) {
+      const [prompt] = context.prompt.split("\n");
+      startedPrompts.push(prompt);
+      const run = runs.get(prompt);
+      run?.markStarted();
+      await run?.finished;
+      yield { type: "text-delta", text: prompt };
+    },
+  };
+
+  return { adapter, startedPrompts, holdRun };
+};
+
+const waitForTurns = async (count: number) => {
+  for (let turn = 0; turn < count; turn++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+describe("workspace queue", () => {
+  let workspace: string;
+
+  before(async () => {
+    workspace = await mkdtemp(path.join(tmpdir(), "react-grab-workspace-"));
+  });
+
+  after(async () => {
+    await rm(workspace, { recursive: true, force: true });
+  });
+
+  it("keeps later runs waiting when a queued run is aborted", async () => {
+    const { adapter, startedPrompts, holdRun } = createHeldAdapter(workspace);
+    const app = createAgentServer(adapter);
+    const firstRun = holdRun("first");
+    const thirdRun = holdRun("third");
+
+    const firstResponse = await postJson(app, "/agent", {
+      content: "<button />",
+      prompt: "first",
+      sessionId: "first",
+    });
+    await firstRun.started;
+
+    const secondResponse = await postJson(app, "/agent", {
+      content: "<button />",
+      prompt: "second",
+      sessionId: "second",
+    });
+    await waitForTurns(2);
+    await postJson(app, "/agent/second/abort", {});
+    await secondResponse.text();
+
+    const thirdResponse = await postJson(app, "/agent", {
+      content: "<button />",
+      prompt: "third",
+      sessionId: "third",
+    });
+    await waitForTurns(5);
+    assert.deepEqual(startedPrompts, ["first"]);
+
+    firstRun.finish();
+    await firstResponse.text();
+    await thirdRun.started;
+    assert.deepEqual(startedPrompts, ["first", "third"]);
+
+    thirdRun.finish();
+    await thirdResponse.text();
+  });
+});
+
+describe("file changes", () => {
+  let workspace: string;
+
+  before(async () => {
+    workspace = await mkdtemp(path.join(tmpdir(), "react-grab-workspace-"));
+  });
+
+  after(async () => {
+    await rm(workspace, { recursive: true, force: true });
+  });
+
+  it("only highlights the files each run changed", async () => {
+    const sentCommands: PageCommand[] = [];
+    const pageBridge: PageBridge = {
+      send: (command) => {
+        sentCommands.push(command);
+        return 1;
+      },
+      getPageCount: () => 1,
+      handleUpgrade: () => {},
+    };
+    const adapter: AgentAdapter = {
+      name: "writer",
+      getCwd: () => workspace,
+      run: async function* ({ prompt, onResumeId }) {
+        const [fileName] = prompt.split("\n");
+        await writeFile(path.join(workspace, fileName), prompt);
+        onResumeId("resume-1");
+        yield { type: "status", message: `Wrote ${fileName}` };
+      },
+    };
+    const app = createAgentServer(adapter, pageBridge);
+
+    await postJson(app, "/agent", {
+      content: "<button />",
+      prompt: "Button.tsx",
+      sessionId: "session-1",
+    }).then((response) => response.text());
+    await postJson(app, "/agent/follow-up", {
+      sessionId: "session-1",
+      prompt: "Card.tsx",
+    }).then((response) => response.text());
+
+    assert.deepEqual(sentCommands, [
+      { type: "highlight", target: { fileName: "Button.tsx" } },
+      { type: "highlight", target: { fileName: "Card.tsx" } },
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import type { IncomingMessage } from "node:http";
+import { Duplex } from "node:stream";
+import { describe, it } from "node:test";
+import { acceptWebSocket, decodeFrame } from "../src/websocket.js";
+
+const MASK = Buffer.from([0x12, 0x34, 0x56, 0x78]);
+
+interface ClientFrameOptions {
+  isFinal?: boolean;
+  isMasked?: boolean;
+}
+
+// NOTE: encodes frames the way a browser sends them, masked unless told not to
+const encodeClientFrame = (
+  opcode: number,
+  payload: string | Buffer,
+  { isFinal = true, isMasked = true }: ClientFrameOptions = {},
+): Buffer => {
+  const data = Buffer.from(payload);
+  const lengthBytes = data.length < 126 ? 0 : data.length < 0x10000 ? 2 : 8;
+  const header = Buffer.alloc(2 + lengthBytes);
+  header[0] = (isFinal ? 0x80 : 0) | opcode;
+  const maskBit = isMasked ? 0x80 : 0;
+
+  if (lengthBytes === 0) {
+    header[1] = maskBit | data.length;
+  } else if (lengthBytes === 2) {
+    header[1] = maskBit | 126;
+    header.writeUInt16BE(data.length, 2);
+  } else {
+    header[1] = maskBit | 127;
+    header.writeBigUInt64BE(BigInt(data.length), 2);
+  }
+
+  if (!isMasked) return Buffer.concat([header, data]);
+
+  const masked = Buffer.from(data);
+  for (let index = 0; index < masked.length; index++) {
+    masked[index] ^= MASK[index % 4];
+  }
+  return Buffer.concat([header, MASK, masked]);
+};
+
+const openConnection = () => {
+  const socket = new Duplex({
+    read: () => {},
+    write: (_chunk, _encoding, callback) => callback(),
+  });
+  const request = {
+    headers: { upgrade: "websocket", "sec-websocket-key": "dGhlIHNhbXBsZQ==" },
+  } as unknown as IncomingMessage;
+  const connection = acceptWebSocket(request, socket);
+  assert.ok(connection);
+
+  const messages: string[] = [];
+  let isClosed = false;
+  connection.onMessage((message) => messages.push(message));
+  connection.onClose(() => {
+    isClosed = true;
+  });
+
+  return {
+    receive: (...frames: Buffer[]) =>
+      socket.emit("data", Buffer.concat(frames)),
+    messages,
+    isClosed: () => isClosed,
+  };
+};
+
+describe("decodeFrame", () => {
+  it("unmasks a client text frame", () => {
+    const frame = encodeClientFrame(0x1, "hello");
+
+    assert.deepEqual(decodeFrame(frame), {
+      isFinal: true,
+      opcode: 0x1,
+      payload: Buffer.from("hello"),
+      frameLength: frame.length,
+    });
+  });
+
+  it("reads extended payload lengths", () => {
+    const payload = "x".repeat(70_000);
+    const frame = encodeClientFrame(0x1, payload);
+
+    assert.equal(decodeFrame(frame)?.payload.toString(), payload);
+  });
+
+  it("waits for the rest of a partial frame", () => {
+    const frame = encodeClientFrame(0x1, "hello");
+
+    assert.equal(decodeFrame(frame.subarray(0, 1)), null);
+    assert.equal(decodeFrame(frame.subarray(0, frame.length - 1)), null);
+  });
+
+  it("rejects unmasked frames", () => {
+    assert.throws(
+      () => decodeFrame(encodeClientFrame(0x1, "hello", { isMasked: false })),
+      { message: "WebSocket client frame is not masked" },
+    );
+  });
+});
+
+describe("acceptWebSocket", () => {
+  it("joins fragmented text messages", () => {
+    const connection = openConnection();
+
+    connection.receive(
+      encodeClientFrame(0x1, "hel", { isFinal: false }),
+      encodeClientFrame(0x9, "ping"),
+      encodeClientFrame(0x0, "lo"),
+    );
+
+    assert.deepEqual(connection.messages, ["hello"]);
+    assert.equal(connection.isClosed(), false);
+  });
+
+  it("closes when fragments add up to more than the message limit", () => {
+    const connection = openConnection();
+    const fragment = Buffer.alloc(9 * 1024 * 1024, "x");
+
+    connection.receive(encodeClientFrame(0x1, fragment, { isFinal: false }));
+    connection.receive(encodeClientFrame(0x0, fragment));
+
+    assert.deepEqual(connection.messages, []);
+    assert.equal(connection.isClosed(), true);
+  });
+
+  it("closes on binary frames", () => {
+    const connection = openConnection();
+
+    connection.receive(encodeClientFrame(0x2, "hello", { isFinal: false }));
+    connection.receive(encodeClientFrame(0x0, "world"));
+
+    assert.deepEqual(connection.messages, []);
+    assert.equal(connection.isClosed(), true);
+  });
+
+  it("closes on unmasked frames", () => {
+    const connection = openConnection();
+
+    connection.receive(encodeClientFrame(0x1, "hello", { isMasked: false }));
+
+    assert.deepEqual(connection.messages, []);
+    assert.equal(connection.isClosed(), true);
+  });
+
+  it("closes on a continuation without a message to continue", () => {
+    const connection = openConnection();
+
+    connection.receive(encodeClientFrame(0x0, "hello"));
+
+    assert.deepEqual(connection.messages, []);
+    assert.equal(connection.isClosed(), true);
+  });
+});
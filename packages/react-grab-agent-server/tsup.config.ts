@@ -0,0 +1,32 @@
+import { defineConfig } from "tsup";
+
+export default defineConfig([
+  {
+    entry: {
+      server: "./src/server.ts",
+      receiver: "./src/receiver.ts",
+      "receiver-cli": "./src/receiver-cli.ts",
+    },
+    format: ["cjs", "esm"],
+    dts: true,
+    clean: false,
+    splitting: false,
+    sourcemap: false,
+    target: "node18",
+    platform: "node",
+    treeshake: true,
+  },
+  {
+    entry: {
+      client: "./src/client.ts",
+    },
+    format: ["cjs", "esm"],
+    dts: true,
+    clean: false,
+    splitting: false,
+    sourcemap: false,
+    target: "esnext",
+    platform: "browser",
+    treeshake: true,
+  },
+]);
@@ -1,111 +1,256 @@
-import net from "node:net";
-import { Hono } from "hono";
-import { cors } from "hono/cors";
-import { streamSSE } from "hono/streaming";
-import { serve } from "@hono/node-server";
 import {
   query,
+  type CanUseTool,
   type Options,
   type SDKAssistantMessage,
+  type SDKUserMessage,
 } from "@anthropic-ai/claude-agent-sdk";
-import type { AgentContext } from "react-grab/core";
+import type { AgentAttachment, AgentEvent } from "react-grab/core";
+import {
+  createAgentServer,
+  startAgentServer,
+  type AgentAdapter,
+  type AgentRunContext,
+} from "@react-grab/agent-server/server";
 import { DEFAULT_PORT } from "./constants";
 
 type ContentBlock = SDKAssistantMessage["message"]["content"][number];
-type TextContentBlock = Extract<ContentBlock, { type: "text" }>;
-type ClaudeAgentContext = AgentContext<Options>;
 
-const isTextBlock = (block: ContentBlock): block is TextContentBlock =>
-  block.type === "text";
+interface ToolResultBlock {
+  type: string;
+  tool_use_id?: string;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+}
+
+const FILE_EDIT_TOOL_NAMES = ["Edit", "MultiEdit", "Write"];
 
-export const createServer = () => {
-  const app = new Hono();
+const prefixLines = (text: string, prefix: string): string[] =>
+  text ? text.split("\n").map((line) => `${prefix}${line}`) : [];
 
-  app.use("/*", cors());
+const createLineDiff = (
+  filePath: string,
+  changes: Array<{ before: string; after: string }>,
+): string =>
+  [
+    `--- a/${filePath}`,
+    `+++ b/${filePath}`,
+    ...changes.flatMap(({ before, after }) => [
+      "@@",
+      ...prefixLines(before, "-"),
+      ...prefixLines(after, "+"),
+    ]),
+  ].join("\n");
 
-  app.post("/agent", async (context) => {
-    const body = await context.req.json<ClaudeAgentContext>();
-    const { content, prompt, options } = body;
+const getFileEditEvent = (
+  toolName: string,
+  input: unknown,
+): AgentEvent | null => {
+  if (!FILE_EDIT_TOOL_NAMES.includes(toolName)) return null;
+  const toolInput = input as {
+    file_path?: string;
+    old_string?: string;
+    new_string?: string;
+    content?: string;
+    edits?: Array<{ old_string: string; new_string: string }>;
+  };
+  if (!toolInput.file_path) return null;
 
-    const fullPrompt = `${prompt}\n\n${content}`;
+  const changes =
+    toolName === "Write"
+      ? [{ before: "", after: toolInput.content ?? "" }]
+      : toolName === "MultiEdit"
+        ? (toolInput.edits ?? []).map((edit) => ({
+            before: edit.old_string,
+            after: edit.new_string,
+          }))
+        : [
+            {
+              before: toolInput.old_string ?? "",
+              after: toolInput.new_string ?? "",
+            },
+          ];
 
-    return streamSSE(context, async (stream) => {
-      try {
-        await stream.writeSSE({ data: "Please wait...", event: "status" });
+  return {
+    type: "file-edit",
+    path: toolInput.file_path,
+    diff: createLineDiff(toolInput.file_path, changes),
+  };
+};
 
-        const queryResult = query({
-          prompt: fullPrompt,
-          options: {
-            pathToClaudeCodeExecutable: "claude",
-            cwd: process.cwd(),
-            ...options,
+const getAssistantEvents = (content: ContentBlock[]): AgentEvent[] =>
+  content.flatMap((block): AgentEvent[] => {
+    switch (block.type) {
+      case "text":
+        return block.text ? [{ type: "text-delta", text: block.text }] : [];
+      case "thinking":
+        return [{ type: "status", message: "Thinking…" }];
+      case "tool_use": {
+        const fileEditEvent = getFileEditEvent(block.name, block.input);
+        return [
+          {
+            type: "tool-call",
+            id: block.id,
+            name: block.name,
+            input: block.input,
           },
-        });
+          ...(fileEditEvent ? [fileEditEvent] : []),
+        ];
+      }
+      default:
+        return [];
+    }
+  });
 
-        for await (const message of queryResult) {
-          if (message.type === "assistant") {
-            const textContent = message.message.content
-              .filter(isTextBlock)
-              .map((block: TextContentBlock) => block.text)
-              .join(" ");
+const getToolResultEvents = (
+  content: unknown,
+  toolNames: Map<string, string>,
+): AgentEvent[] => {
+  if (!Array.isArray(content)) return [];
 
-            if (textContent) {
-              await stream.writeSSE({ data: textContent, event: "status" });
-            }
-          }
+  return (content as ToolResultBlock[]).flatMap((block): AgentEvent[] => {
+    if (block.type !== "tool_result" || !block.tool_use_id) return [];
+    const output =
+      typeof block.content === "string"
+        ? block.content
+        : (block.content ?? []).map((part) => part.text ?? "").join("\n");
 
-          if (message.type === "result") {
-            await stream.writeSSE({
-              data:
-                message.subtype === "success"
-                  ? "Completed successfully"
-                  : "Task finished",
-              event: "status",
-            });
-          }
-        }
+    return [
+      {
+        type: "tool-result",
+        id: block.tool_use_id,
+        name: toolNames.get(block.tool_use_id),
+        output,
+        isError: block.is_error,
+      },
+    ];
+  });
+};
 
-        await stream.writeSSE({ data: "", event: "done" });
-      } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Unknown error";
-        await stream.writeSSE({
-          data: `Error: ${errorMessage}`,
-          event: "error",
-        });
-        await stream.writeSSE({ data: "", event: "done" });
-      }
+// NOTE: images can only be sent as content blocks, which the SDK accepts
+// through its streaming input mode
+const createPromptMessages = async function* (
+  prompt: string,
+  attachments: AgentAttachment[],
+): AsyncIterable<SDKUserMessage> {
+  yield {
+    type: "user",
+    session_id: "",
+    parent_tool_use_id: null,
+    message: {
+      role: "user",
+      content: [
+        ...attachments.map((attachment) => ({
+          type: "image" as const,
+          source: {
+            type: "base64" as const,
+            media_type: attachment.mediaType,
+            data: attachment.data,
+          },
+        })),
+        { type: "text" as const, text: prompt },
+      ],
+    },
+  };
+};
+
+const createCanUseTool =
+  (requestPermission: AgentRunContext["requestPermission"]): CanUseTool =>
+  async (toolName, input) => {
+    const isAllowed = await requestPermission({
+      toolName,
+      command: typeof input.command === "string" ? input.command : undefined,
+      filePath:
+        typeof input.file_path === "string" ? input.file_path : undefined,
+      input,
     });
-  });
 
-  app.get("/health", (context) => {
-    return context.json({ status: "ok", provider: "claude" });
-  });
+    return isAllowed
+      ? { behavior: "allow", updatedInput: input }
+      : { behavior: "deny", message: "The user denied this tool call" };
+  };
 
-  return app;
-};
+const claudeAdapter: AgentAdapter<Options> = {
+  name: "claude",
+  getCwd: (options) => options?.cwd,
+  run: async function* (
+    {
+      prompt,
+      attachments,
+      options,
+      cwd,
+      resumeId,
+      onResumeId,
+      approvalMode,
+      requestPermission,
+    },
+    signal,
+  ) {
+    const toolNames = new Map<string, string>();
+    const abortController = new AbortController();
+    signal.addEventListener("abort", () => abortController.abort(), {
+      once: true,
+    });
 
-const isPortInUse = (port: number): Promise<boolean> =>
-  new Promise((resolve) => {
-    const server = net.createServer();
-    server.once("error", () => resolve(true));
-    server.once("listening", () => {
-      server.close();
-      resolve(false);
+    yield { type: "status", message: "Please wait..." };
+
+    const queryResult = query({
+      prompt:
+        attachments.length > 0
+          ? createPromptMessages(prompt, attachments)
+          : prompt,
+      options: {
+        pathToClaudeCodeExecutable: "claude",
+        ...options,
+        cwd,
+        abortController,
+        ...(resumeId ? { resume: resumeId } : {}),
+        // NOTE: "default" makes the SDK ask canUseTool for anything not
+        // covered by the project's own allow rules
+        ...(approvalMode === "ask"
+          ? {
+              permissionMode: "default",
+              canUseTool: createCanUseTool(requestPermission),
+            }
+          : {}),
+      },
     });
-    server.listen(port);
-  });
 
-export const startServer = async (port: number = DEFAULT_PORT) => {
-  if (await isPortInUse(port)) {
-    return;
-  }
+    for await (const message of queryResult) {
+      // NOTE: remember the Claude session so follow-ups continue it
+      if (message.session_id) onResumeId(message.session_id);
+
+      if (message.type === "assistant") {
+        for (const event of getAssistantEvents(message.message.content)) {
+          if (event.type === "tool-call" && event.id) {
+            toolNames.set(event.id, event.name);
+          }
+          yield event;
+        }
+      }
+
+      if (message.type === "user") {
+        yield* getToolResultEvents(message.message.content, toolNames);
+      }
 
-  const app = createServer();
-  serve({ fetch: app.fetch, port });
-  console.log(`[React Grab] Server started on port ${port}`);
+      if (message.type === "result") {
+        yield message.subtype === "success"
+          ? { type: "status", message: "Completed successfully" }
+          : {
+              type: "error",
+              message: `Agent stopped: ${message.subtype}`,
+              code: "agent",
+            };
+      }
+    }
+  },
 };
 
+export const createServer = () => createAgentServer(claudeAdapter);
+
+export const startServer = (port: number = DEFAULT_PORT) =>
+  startAgentServer(claudeAdapter, port);
+
 if (import.meta.url === `file://${process.argv[1]}`) {
   startServer(DEFAULT_PORT).catch(console.error);
 }
@@ -0,0 +1,34 @@
+import type { AgentProvider } from "react-grab/core";
+import {
+  attachAgentProvider,
+  createAgentServerProvider,
+} from "@react-grab/agent-server/client";
+import { DEFAULT_PORT } from "./constants.js";
+
+const DEFAULT_SERVER_URL = `http://localhost:${DEFAULT_PORT}`;
+
+interface CodexAgentOptions {
+  model?: string;
+  workspace?: string;
+}
+
+interface CodexAgentProviderOptions {
+  serverUrl?: string;
+  getOptions?: () => Partial<CodexAgentOptions>;
+}
+
+export const createCodexAgentProvider = (
+  providerOptions: CodexAgentProviderOptions = {},
+): AgentProvider<CodexAgentOptions> =>
+  createAgentServerProvider({
+    serverUrl: providerOptions.serverUrl ?? DEFAULT_SERVER_URL,
+    getOptions: providerOptions.getOptions,
+  });
+
+export const attachAgent = async () => {
+  attachAgentProvider(createCodexAgentProvider(), {
+    serverUrl: DEFAULT_SERVER_URL,
+  });
+};
+
+attachAgent();
@@ -0,0 +1 @@
+export const DEFAULT_PORT = 6567;
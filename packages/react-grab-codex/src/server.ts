@@ -0,0 +1,230 @@
+import type { AgentEvent } from "react-grab/core";
+import {
+  createAgentServer,
+  readProcessLines,
+  startAgentServer,
+  type AgentAdapter,
+} from "@react-grab/agent-server/server";
+import { DEFAULT_PORT } from "./constants.js";
+
+interface CodexAgentOptions {
+  model?: string;
+  workspace?: string;
+}
+
+interface CodexItem {
+  id: string;
+  type:
+    | "agent_message"
+    | "reasoning"
+    | "command_execution"
+    | "file_change"
+    | "mcp_tool_call"
+    | "web_search"
+    | "todo_list"
+    | "error";
+  text?: string;
+  command?: string;
+  aggregated_output?: string;
+  exit_code?: number;
+  status?: "in_progress" | "completed" | "failed";
+  changes?: Array<{ path: string; kind: "add" | "update" | "delete" }>;
+  server?: string;
+  tool?: string;
+  arguments?: unknown;
+  query?: string;
+  message?: string;
+}
+
+interface CodexStreamEvent {
+  type:
+    | "thread.started"
+    | "turn.started"
+    | "turn.completed"
+    | "turn.failed"
+    | "item.started"
+    | "item.updated"
+    | "item.completed"
+    | "error";
+  thread_id?: string;
+  item?: CodexItem;
+  error?: { message: string };
+  message?: string;
+}
+
+const parseStreamLine = (line: string): CodexStreamEvent | null => {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+
+  try {
+    return JSON.parse(trimmed) as CodexStreamEvent;
+  } catch {
+    return null;
+  }
+};
+
+const getToolName = (item: CodexItem): string | null => {
+  switch (item.type) {
+    case "command_execution":
+      return "shell";
+    case "mcp_tool_call":
+      return `${item.server}.${item.tool}`;
+    case "web_search":
+      return "web_search";
+    default:
+      return null;
+  }
+};
+
+const getToolInput = (item: CodexItem): unknown => {
+  switch (item.type) {
+    case "command_execution":
+      return { command: item.command };
+    case "web_search":
+      return { query: item.query };
+    default:
+      return item.arguments;
+  }
+};
+
+const getStartedItemEvents = (item: CodexItem): AgentEvent[] => {
+  const toolName = getToolName(item);
+  return toolName
+    ? [
+        {
+          type: "tool-call",
+          id: item.id,
+          name: toolName,
+          input: getToolInput(item),
+        },
+      ]
+    : [];
+};
+
+const getCompletedItemEvents = (item: CodexItem): AgentEvent[] => {
+  switch (item.type) {
+    case "agent_message":
+      return item.text ? [{ type: "text-delta", text: item.text }] : [];
+
+    case "reasoning":
+      return [{ type: "status", message: "Thinking…" }];
+
+    case "file_change": {
+      const paths = (item.changes ?? []).map((change) => change.path);
+      return paths.length > 0
+        ? [{ type: "status", message: `Edited ${paths.join(", ")}` }]
+        : [];
+    }
+
+    case "error":
+      return item.message ? [{ type: "status", message: item.message }] : [];
+
+    default: {
+      const toolName = getToolName(item);
+      if (!toolName) return [];
+      return [
+        {
+          type: "tool-result",
+          id: item.id,
+          name: toolName,
+          output: item.aggregated_output,
+          isError:
+            item.status === "failed" ||
+            (item.exit_code !== undefined && item.exit_code !== 0),
+        },
+      ];
+    }
+  }
+};
+
+const getStreamEvents = (event: CodexStreamEvent): AgentEvent[] => {
+  switch (event.type) {
+    case "turn.started":
+      return [{ type: "status", message: "Thinking…" }];
+
+    case "item.started":
+      return event.item ? getStartedItemEvents(event.item) : [];
+
+    case "item.completed":
+      return event.item ? getCompletedItemEvents(event.item) : [];
+
+    case "turn.completed":
+      return [{ type: "status", message: "Completed successfully" }];
+
+    case "turn.failed":
+    case "error":
+      return [
+        {
+          type: "error",
+          message: event.error?.message ?? event.message ?? "Unknown error",
+          code: "agent",
+        },
+      ];
+
+    default:
+      return [];
+  }
+};
+
+const codexAdapter: AgentAdapter<CodexAgentOptions> = {
+  name: "codex",
+  getCwd: (options) => options?.workspace,
+  run: async function* (
+    { prompt, options, cwd, resumeId, onResumeId, approvalMode },
+    signal,
+  ) {
+    const codexArgs = ["exec", "--json"];
+
+    // NOTE: codex exec never asks for approval, so "ask" keeps its default
+    // read-only sandbox instead of letting it write to the workspace
+    if (approvalMode === "bypass") {
+      codexArgs.push("--full-auto");
+    } else {
+      yield {
+        type: "status",
+        message:
+          "Codex can't forward tool approvals, so it runs in its read-only sandbox",
+      };
+    }
+
+    codexArgs.push("--skip-git-repo-check", "--cd", cwd);
+
+    if (options?.model) {
+      codexArgs.push("--model", options.model);
+    }
+
+    if (resumeId) {
+      codexArgs.push("resume", resumeId);
+    }
+
+    // NOTE: "-" makes codex read the prompt from stdin, which avoids argument
+    // length limits for large element snippets
+    codexArgs.push("-");
+
+    yield { type: "status", message: "Planning next moves" };
+
+    const lines = readProcessLines("codex", codexArgs, {
+      input: prompt,
+      signal,
+    });
+
+    for await (const line of lines) {
+      const event = parseStreamLine(line);
+      if (!event) continue;
+
+      // NOTE: remember the codex thread so follow-ups continue it
+      if (event.thread_id) onResumeId(event.thread_id);
+
+      yield* getStreamEvents(event);
+    }
+  },
+};
+
+export const createServer = () => createAgentServer(codexAdapter);
+
+export const startServer = (port: number = DEFAULT_PORT) =>
+  startAgentServer(codexAdapter, port);
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  startServer(DEFAULT_PORT).catch(console.error);
+}
@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+  createFakeCli,
+  getFixturePath,
+  postJson,
+  readAgentEvents,
+  sendGrab,
+  type FakeCli,
+} from "../../react-grab-agent-server/test/adapter-harness.js";
+import { createServer } from "../src/server.js";
+
+const THREAD_ID = "0199a213-81c0-7800-8aa1-bbab2a035a53";
+
+describe("codex adapter", () => {
+  let fakeCli: FakeCli | undefined;
+
+  afterEach(async () => {
+    await fakeCli?.cleanup();
+    fakeCli = undefined;
+  });
+
+  it("maps codex exec events to agent events", async () => {
+    fakeCli = await createFakeCli("codex", {
+      fixturePath: getFixturePath(import.meta.url, "success.jsonl"),
+    });
+    const response = await sendGrab(createServer(), fakeCli, {
+      sessionId: "session-1",
+    });
+
+    assert.deepEqual(await readAgentEvents(response), [
+      { type: "status", message: "Planning next moves" },
+      { type: "status", message: "Thinking…" },
+      { type: "status", message: "Thinking…" },
+      {
+        type: "tool-call",
+        id: "item_1",
+        name: "shell",
+        input: { command: "bash -lc 'cat src/App.tsx'" },
+      },
+      {
+        type: "tool-result",
+        id: "item_1",
+        name: "shell",
+        output: "export const App = () => <button>Save</button>;\n",
+        isError: false,
+      },
+      { type: "status", message: "Edited src/App.tsx" },
+      { type: "text-delta", text: "Made the save button red." },
+      { type: "status", message: "Completed successfully" },
+      { type: "file-changes", files: [] },
+      { type: "done" },
+    ]);
+  });
+
+  it("passes the prompt, model and workspace to codex exec", async () => {
+    fakeCli = await createFakeCli("codex", {
+      fixturePath: getFixturePath(import.meta.url, "success.jsonl"),
+    });
+    await sendGrab(createServer(), fakeCli, {
+      sessionId: "session-1",
+      options: { model: "gpt-5-codex" },
+    }).then((response) => response.text());
+
+    assert.deepEqual(await fakeCli.readArgs(), [
+      "exec",
+      "--json",
+      "--full-auto",
+      "--skip-git-repo-check",
+      "--cd",
+      fakeCli.workspace,
+      "--model",
+      "gpt-5-codex",
+      "-",
+    ]);
+    assert.equal(
+      await fakeCli.readStdin(),
+      "Make it red\n\n<button>Save</button>",
+    );
+  });
+
+  it("resumes the codex thread for follow-ups", async () => {
+    fakeCli = await createFakeCli("codex", {
+      fixturePath: getFixturePath(import.meta.url, "success.jsonl"),
+    });
+    const app = createServer();
+    await sendGrab(app, fakeCli, { sessionId: "session-1" }).then((response) =>
+      response.text(),
+    );
+
+    const response = await postJson(app, "/agent/follow-up", {
+      sessionId: "session-1",
+      prompt: "Darker",
+    });
+    await response.text();
+
+    assert.equal(response.status, 200);
+    assert.deepEqual((await fakeCli.readArgs()).slice(-3), [
+      "resume",
+      THREAD_ID,
+      "-",
+    ]);
+    assert.equal(await fakeCli.readStdin(), "Darker");
+  });
+
+  it("replays buffered events when a page reattaches", async () => {
+    fakeCli = await createFakeCli("codex", {
+      fixturePath: getFixturePath(import.meta.url, "success.jsonl"),
+    });
+    const app = createServer();
+    const events = await readAgentEvents(
+      await sendGrab(app, fakeCli, { sessionId: "session-1" }),
+    );
+
+    const response = await app.request("/agent/session-1/events?after=6");
+
+    assert.deepEqual(await readAgentEvents(response), events.slice(6));
+    assert.equal((await app.request("/agent/missing/events")).status, 404);
+  });
+
+  it("reports failed turns as agent errors", async () => {
+    fakeCli = await createFakeCli("codex", {
+      fixturePath: getFixturePath(import.meta.url, "failure.jsonl"),
+    });
+    const response = await sendGrab(createServer(), fakeCli);
+
+    assert.deepEqual((await readAgentEvents(response)).slice(-2), [
+      {
+        type: "error",
+        message: "stream disconnected before completion",
+        code: "agent",
+      },
+      { type: "done" },
+    ]);
+  });
+
+  it("reports a non-zero exit code", async () => {
+    fakeCli = await createFakeCli("codex", { exitCode: 2 });
+    const response = await sendGrab(createServer(), fakeCli);
+
+    assert.deepEqual((await readAgentEvents(response)).slice(-2), [
+      { type: "error", message: "codex exited with code 2", code: "agent" },
+      { type: "done" },
+    ]);
+  });
+});
@@ -1,10 +1,10 @@
-import { spawn } from "node:child_process";
-import net from "node:net";
-import { Hono } from "hono";
-import { cors } from "hono/cors";
-import { streamSSE } from "hono/streaming";
-import { serve } from "@hono/node-server";
-import type { AgentContext } from "react-grab/core";
+import type { AgentEvent } from "react-grab/core";
+import {
+  createAgentServer,
+  readProcessLines,
+  startAgentServer,
+  type AgentAdapter,
+} from "@react-grab/agent-server/server";
 import { DEFAULT_PORT } from "./constants.js";
 
 interface CursorAgentOptions {
@@ -12,15 +12,26 @@ interface CursorAgentOptions {
   workspace?: string;
 }
 
-type CursorAgentContext = AgentContext<CursorAgentOptions>;
+interface CursorToolCall {
+  args?: {
+    path?: string;
+    fileText?: string;
+  } & Record<string, unknown>;
+  result?: {
+    success?: { diffString?: string } & Record<string, unknown>;
+    error?: { errorMessage?: string } & Record<string, unknown>;
+  };
+}
 
 interface CursorStreamEvent {
-  type: "system" | "user" | "thinking" | "assistant" | "result";
-  subtype?: "init" | "delta" | "completed" | "success" | "error";
+  type: "system" | "user" | "thinking" | "assistant" | "tool_call" | "result";
+  subtype?: "init" | "delta" | "started" | "completed" | "success" | "error";
   message?: {
     role: string;
     content: Array<{ type: string; text: string }>;
   };
+  call_id?: string;
+  tool_call?: Record<string, CursorToolCall>;
   result?: string;
   is_error?: boolean;
   session_id?: string;
@@ -37,6 +48,44 @@ const parseStreamLine = (line: string): CursorStreamEvent | null => {
   }
 };
 
+const getToolCallEvents = (event: CursorStreamEvent): AgentEvent[] => {
+  const [toolKey, toolCall] = Object.entries(event.tool_call ?? {})[0] ?? [];
+  if (!toolKey || !toolCall) return [];
+  const name = toolKey.replace(/ToolCall$/, "");
+
+  if (event.subtype === "started") {
+    return [
+      { type: "tool-call", id: event.call_id, name, input: toolCall.args },
+    ];
+  }
+
+  const errorMessage = toolCall.result?.error?.errorMessage;
+  const events: AgentEvent[] = [
+    {
+      type: "tool-result",
+      id: event.call_id,
+      name,
+      output: errorMessage ?? JSON.stringify(toolCall.result?.success ?? {}),
+      isError: Boolean(toolCall.result?.error),
+    },
+  ];
+
+  const path = toolCall.args?.path;
+  const diff =
+    toolCall.result?.success?.diffString ??
+    (name === "write" && toolCall.args?.fileText !== undefined
+      ? toolCall.args.fileText
+          .split("\n")
+          .map((line) => `+${line}`)
+          .join("\n")
+      : undefined);
+  if (path && diff !== undefined && !errorMessage) {
+    events.push({ type: "file-edit", path, diff });
+  }
+
+  return events;
+};
+
 const extractTextFromMessage = (
   message: CursorStreamEvent["message"],
 ): string => {
@@ -49,174 +98,105 @@ const extractTextFromMessage = (
     .trim();
 };
 
-export const createServer = () => {
-  const app = new Hono();
-
-  app.use("/*", cors());
-
-  app.post("/agent", async (context) => {
-    const body = await context.req.json<CursorAgentContext>();
-    const { content, prompt, options } = body;
-
-    const fullPrompt = `${prompt}\n\n${content}`;
-
-    return streamSSE(context, async (stream) => {
-      const cursorAgentArgs = [
-        "--print",
-        "--output-format",
-        "stream-json",
-        "--force",
-      ];
-
-      if (options?.model) {
-        cursorAgentArgs.push("--model", options.model);
-      }
-
-      if (options?.workspace) {
-        cursorAgentArgs.push("--workspace", options.workspace);
-      } else {
-        cursorAgentArgs.push("--workspace", process.cwd());
+const getStreamEvents = (event: CursorStreamEvent): AgentEvent[] => {
+  switch (event.type) {
+    case "system":
+      return event.subtype === "init"
+        ? [{ type: "status", message: "Planning next moves" }]
+        : [];
+
+    case "thinking":
+      return event.subtype === "completed"
+        ? [{ type: "status", message: "Thinking…" }]
+        : [];
+
+    case "assistant": {
+      const textContent = extractTextFromMessage(event.message);
+      return textContent ? [{ type: "text-delta", text: textContent }] : [];
+    }
+
+    case "tool_call":
+      return getToolCallEvents(event);
+
+    case "result":
+      if (event.subtype === "success") {
+        return [{ type: "status", message: "Completed successfully" }];
       }
-
-      try {
-        await stream.writeSSE({ data: "Planning next moves", event: "status" });
-
-        const cursorProcess = spawn("cursor-agent", cursorAgentArgs, {
-          stdio: ["pipe", "pipe", "pipe"],
-          env: { ...process.env },
-        });
-
-        let buffer = "";
-
-        const processLine = async (line: string) => {
-          const event = parseStreamLine(line);
-          if (!event) return;
-
-          switch (event.type) {
-            case "system":
-              if (event.subtype === "init") {
-                await stream.writeSSE({
-                  data: "Planning next moves",
-                  event: "status",
-                });
-              }
-              break;
-
-            case "thinking":
-              if (event.subtype === "completed") {
-                await stream.writeSSE({
-                  data: "Thinking…",
-                  event: "status",
-                });
-              }
-              break;
-
-            case "assistant": {
-              const textContent = extractTextFromMessage(event.message);
-              if (textContent) {
-                await stream.writeSSE({ data: textContent, event: "status" });
-              }
-              break;
-            }
-
-            case "result":
-              if (event.subtype === "success") {
-                await stream.writeSSE({
-                  data: "Completed successfully",
-                  event: "status",
-                });
-              } else if (event.subtype === "error" || event.is_error) {
-                await stream.writeSSE({
-                  data: `Error: ${event.result || "Unknown error"}`,
-                  event: "error",
-                });
-              } else {
-                await stream.writeSSE({
-                  data: "Task finished",
-                  event: "status",
-                });
-              }
-              break;
-          }
-        };
-
-        cursorProcess.stdout.on("data", async (chunk: Buffer) => {
-          buffer += chunk.toString();
-
-          let newlineIndex;
-          while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
-            const line = buffer.slice(0, newlineIndex);
-            buffer = buffer.slice(newlineIndex + 1);
-            await processLine(line);
-          }
-        });
-
-        cursorProcess.stderr.on("data", (chunk: Buffer) => {
-          console.error("[cursor-agent stderr]:", chunk.toString());
-        });
-
-        cursorProcess.stdin.write(fullPrompt);
-        cursorProcess.stdin.end();
-
-        await new Promise<void>((resolve, reject) => {
-          cursorProcess.on("close", (code) => {
-            if (code === 0) {
-              resolve();
-            } else {
-              reject(new Error(`cursor-agent exited with code ${code}`));
-            }
-          });
-
-          cursorProcess.on("error", (error) => {
-            reject(error);
-          });
-        });
-
-        if (buffer.trim()) {
-          await processLine(buffer);
-        }
-
-        await stream.writeSSE({ data: "", event: "done" });
-      } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Unknown error";
-        await stream.writeSSE({
-          data: `Error: ${errorMessage}`,
-          event: "error",
-        });
-        await stream.writeSSE({ data: "", event: "done" });
+      if (event.subtype === "error" || event.is_error) {
+        return [
+          {
+            type: "error",
+            message: event.result || "Unknown error",
+            code: "agent",
+          },
+        ];
       }
-    });
-  });
+      return [{ type: "status", message: "Task finished" }];
 
-  app.get("/health", (context) => {
-    return context.json({ status: "ok", provider: "cursor" });
-  });
-
-  return app;
+    default:
+      return [];
+  }
 };
 
-const isPortInUse = (port: number): Promise<boolean> =>
-  new Promise((resolve) => {
-    const server = net.createServer();
-    server.once("error", () => resolve(true));
-    server.once("listening", () => {
-      server.close();
-      resolve(false);
+const cursorAdapter: AgentAdapter<CursorAgentOptions> = {
+  name: "cursor",
+  getCwd: (options) => options?.workspace,
+  run: async function* (
+    { prompt, options, cwd, resumeId, onResumeId, approvalMode },
+    signal,
+  ) {
+    const cursorAgentArgs = [
+      "--print",
+      "--output-format",
+      "stream-json",
+      "--workspace",
+      cwd,
+    ];
+
+    // NOTE: cursor-agent can't forward approvals in print mode, so "ask" falls
+    // back to its own allowlist instead of forcing every command through
+    if (approvalMode === "bypass") {
+      cursorAgentArgs.push("--force");
+    } else {
+      yield {
+        type: "status",
+        message:
+          "Cursor Agent can't forward tool approvals, so it only runs allowlisted commands",
+      };
+    }
+
+    if (options?.model) {
+      cursorAgentArgs.push("--model", options.model);
+    }
+
+    if (resumeId) {
+      cursorAgentArgs.push("--resume", resumeId);
+    }
+
+    yield { type: "status", message: "Planning next moves" };
+
+    const lines = readProcessLines("cursor-agent", cursorAgentArgs, {
+      input: prompt,
+      signal,
     });
-    server.listen(port);
-  });
 
-export const startServer = async (port: number = DEFAULT_PORT) => {
-  if (await isPortInUse(port)) {
-    return;
-  }
+    for await (const line of lines) {
+      const event = parseStreamLine(line);
+      if (!event) continue;
 
-  const app = createServer();
-  serve({ fetch: app.fetch, port });
-  console.log(`[React Grab] Server started on port ${port}`);
+      // NOTE: remember the cursor-agent chat so follow-ups continue it
+      if (event.session_id) onResumeId(event.session_id);
+
+      yield* getStreamEvents(event);
+    }
+  },
 };
 
+export const createServer = () => createAgentServer(cursorAdapter);
+
+export const startServer = (port: number = DEFAULT_PORT) =>
+  startAgentServer(cursorAdapter, port);
+
 if (import.meta.url === `file://${process.argv[1]}`) {
   startServer(DEFAULT_PORT).catch(console.error);
 }
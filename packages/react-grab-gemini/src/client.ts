@@ -0,0 +1,34 @@
+import type { AgentProvider } from "react-grab/core";
+import {
+  attachAgentProvider,
+  createAgentServerProvider,
+} from "@react-grab/agent-server/client";
+import { DEFAULT_PORT } from "./constants.js";
+
+const DEFAULT_SERVER_URL = `http://localhost:${DEFAULT_PORT}`;
+
+interface GeminiAgentOptions {
+  model?: string;
+  workspace?: string;
+}
+
+interface GeminiAgentProviderOptions {
+  serverUrl?: string;
+  getOptions?: () => Partial<GeminiAgentOptions>;
+}
+
+export const createGeminiAgentProvider = (
+  providerOptions: GeminiAgentProviderOptions = {},
+): AgentProvider<GeminiAgentOptions> =>
+  createAgentServerProvider({
+    serverUrl: providerOptions.serverUrl ?? DEFAULT_SERVER_URL,
+    getOptions: providerOptions.getOptions,
+  });
+
+export const attachAgent = async () => {
+  attachAgentProvider(createGeminiAgentProvider(), {
+    serverUrl: DEFAULT_SERVER_URL,
+  });
+};
+
+attachAgent();
@@ -0,0 +1,158 @@
+import type { AgentEvent } from "react-grab/core";
+import {
+  createAgentServer,
+  readProcessLines,
+  startAgentServer,
+  type AgentAdapter,
+} from "@react-grab/agent-server/server";
+import { DEFAULT_PORT } from "./constants.js";
+
+interface GeminiAgentOptions {
+  model?: string;
+  workspace?: string;
+}
+
+interface GeminiStreamEvent {
+  type: "init" | "message" | "tool_use" | "tool_result" | "error" | "result";
+  session_id?: string;
+  role?: "user" | "assistant";
+  content?: string;
+  tool_name?: string;
+  tool_id?: string;
+  parameters?: Record<string, unknown>;
+  status?: "success" | "error";
+  output?: string;
+  severity?: "warning" | "error";
+  message?: string;
+  error?: { type?: string; message: string };
+}
+
+const parseStreamLine = (line: string): GeminiStreamEvent | null => {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+
+  try {
+    return JSON.parse(trimmed) as GeminiStreamEvent;
+  } catch {
+    return null;
+  }
+};
+
+const getStreamEvents = (event: GeminiStreamEvent): AgentEvent[] => {
+  switch (event.type) {
+    case "init":
+      return [{ type: "status", message: "Planning next moves" }];
+
+    case "message":
+      return event.role === "assistant" && event.content
+        ? [{ type: "text-delta", text: event.content }]
+        : [];
+
+    case "tool_use":
+      return event.tool_name
+        ? [
+            {
+              type: "tool-call",
+              id: event.tool_id,
+              name: event.tool_name,
+              input: event.parameters,
+            },
+          ]
+        : [];
+
+    case "tool_result":
+      return [
+        {
+          type: "tool-result",
+          id: event.tool_id,
+          output: event.output ?? event.error?.message,
+          isError: event.status === "error",
+        },
+      ];
+
+    case "error":
+      // NOTE: warnings (e.g. loop detection) don't stop the turn
+      return event.severity === "warning"
+        ? [{ type: "status", message: event.message ?? "Warning" }]
+        : [
+            {
+              type: "error",
+              message: event.message ?? "Unknown error",
+              code: "agent",
+            },
+          ];
+
+    case "result":
+      return event.status === "error"
+        ? [
+            {
+              type: "error",
+              message: event.error?.message ?? "Unknown error",
+              code: "agent",
+            },
+          ]
+        : [{ type: "status", message: "Completed successfully" }];
+
+    default:
+      return [];
+  }
+};
+
+const geminiAdapter: AgentAdapter<GeminiAgentOptions> = {
+  name: "gemini",
+  getCwd: (options) => options?.workspace,
+  run: async function* (
+    { prompt, options, cwd, resumeId, onResumeId, approvalMode },
+    signal,
+  ) {
+    const geminiArgs = ["--output-format", "stream-json"];
+
+    // NOTE: gemini refuses unapproved tools when run headless, so "ask" keeps
+    // its default approval mode instead of auto-approving everything
+    if (approvalMode === "bypass") {
+      geminiArgs.push("--yolo");
+    } else {
+      yield {
+        type: "status",
+        message:
+          "Gemini CLI can't forward tool approvals, so it skips tools that need one",
+      };
+    }
+
+    if (options?.model) {
+      geminiArgs.push("--model", options.model);
+    }
+
+    if (resumeId) {
+      geminiArgs.push("--resume", resumeId);
+    }
+
+    yield { type: "status", message: "Please wait..." };
+
+    // NOTE: gemini runs non-interactively when the prompt is piped to stdin
+    const lines = readProcessLines("gemini", geminiArgs, {
+      cwd,
+      input: prompt,
+      signal,
+    });
+
+    for await (const line of lines) {
+      const event = parseStreamLine(line);
+      if (!event) continue;
+
+      // NOTE: remember the gemini session so follow-ups continue it
+      if (event.session_id) onResumeId(event.session_id);
+
+      yield* getStreamEvents(event);
+    }
+  },
+};
+
+export const createServer = () => createAgentServer(geminiAdapter);
+
+export const startServer = (port: number = DEFAULT_PORT) =>
+  startAgentServer(geminiAdapter, port);
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  startServer(DEFAULT_PORT).catch(console.error);
+}
@@ -0,0 +1,161 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+  createFakeCli,
+  getFixturePath,
+  postJson,
+  readAgentEvents,
+  sendGrab,
+  type FakeCli,
+} from "../../react-grab-agent-server/test/adapter-harness.js";
+import { createServer } from "../src/server.js";
+
+const SESSION_ID = "c6b2a1f4-5d3e-4f7a-9b8c-0d1e2f3a4b5c";
+
+describe("gemini adapter", () => {
+  let fakeCli: FakeCli | undefined;
+
+  afterEach(async () => {
+    await fakeCli?.cleanup();
+    fakeCli = undefined;
+  });
+
+  it("maps gemini stream-json events to agent events", async () => {
+    fakeCli = await createFakeCli("gemini", {
+      fixturePath: getFixturePath(import.meta.url, "success.jsonl"),
+    });
+    const response = await sendGrab(createServer(), fakeCli, {
+      sessionId: "session-1",
+    });
+
+    assert.deepEqual(await readAgentEvents(response), [
+      { type: "status", message: "Please wait..." },
+      { type: "status", message: "Planning next moves" },
+      {
+        type: "tool-call",
+        id: "read_file-1760097601000-1",
+        name: "read_file",
+        input: { absolute_path: "src/App.tsx" },
+      },
+      {
+        type: "tool-result",
+        id: "read_file-1760097601000-1",
+        output: "export const App = () => <button>Save</button>;",
+        isError: false,
+      },
+      {
+        type: "tool-call",
+        id: "replace-1760097602000-2",
+        name: "replace",
+        input: {
+          file_path: "src/App.tsx",
+          old_string: "<button>",
+          new_string: '<button className="text-red-500">',
+        },
+      },
+      {
+        type: "tool-result",
+        id: "replace-1760097602000-2",
+        output: "Failed to edit, could not find the string to replace.",
+        isError: true,
+      },
+      { type: "status", message: "Retrying after rate limit" },
+      { type: "text-delta", text: "Made the save button red." },
+      { type: "status", message: "Completed successfully" },
+      { type: "file-changes", files: [] },
+      { type: "done" },
+    ]);
+  });
+
+  it("passes the prompt, model and workspace to gemini", async () => {
+    fakeCli = await createFakeCli("gemini", {
+      fixturePath: getFixturePath(import.meta.url, "success.jsonl"),
+    });
+    await sendGrab(createServer(), fakeCli, {
+      sessionId: "session-1",
+      options: { model: "gemini-2.5-pro" },
+    }).then((response) => response.text());
+
+    assert.deepEqual(await fakeCli.readArgs(), [
+      "--output-format",
+      "stream-json",
+      "--yolo",
+      "--model",
+      "gemini-2.5-pro",
+    ]);
+    assert.equal(await fakeCli.readCwd(), fakeCli.workspace);
+    assert.equal(
+      await fakeCli.readStdin(),
+      "Make it red\n\n<button>Save</button>",
+    );
+  });
+
+  it("keeps gemini's own approvals in ask mode", async () => {
+    fakeCli = await createFakeCli("gemini", {
+      fixturePath: getFixturePath(import.meta.url, "success.jsonl"),
+    });
+    const response = await sendGrab(createServer(), fakeCli, {
+      sessionId: "session-1",
+      approvalMode: "ask",
+    });
+
+    assert.deepEqual((await readAgentEvents(response))[0], {
+      type: "status",
+      message:
+        "Gemini CLI can't forward tool approvals, so it skips tools that need one",
+    });
+    assert.deepEqual(await fakeCli.readArgs(), [
+      "--output-format",
+      "stream-json",
+    ]);
+  });
+
+  it("resumes the gemini session for follow-ups", async () => {
+    fakeCli = await createFakeCli("gemini", {
+      fixturePath: getFixturePath(import.meta.url, "success.jsonl"),
+    });
+    const app = createServer();
+    await sendGrab(app, fakeCli, { sessionId: "session-1" }).then((response) =>
+      response.text(),
+    );
+
+    const response = await postJson(app, "/agent/follow-up", {
+      sessionId: "session-1",
+      prompt: "Darker",
+    });
+    await response.text();
+
+    assert.equal(response.status, 200);
+    assert.deepEqual((await fakeCli.readArgs()).slice(-2), [
+      "--resume",
+      SESSION_ID,
+    ]);
+    assert.equal(await fakeCli.readStdin(), "Darker");
+  });
+
+  it("reports failed results as agent errors", async () => {
+    fakeCli = await createFakeCli("gemini", {
+      fixturePath: getFixturePath(import.meta.url, "failure.jsonl"),
+    });
+    const response = await sendGrab(createServer(), fakeCli);
+
+    assert.deepEqual((await readAgentEvents(response)).slice(-2), [
+      {
+        type: "error",
+        message: "Please set an Auth method in your settings.json",
+        code: "agent",
+      },
+      { type: "done" },
+    ]);
+  });
+
+  it("reports a non-zero exit code", async () => {
+    fakeCli = await createFakeCli("gemini", { exitCode: 1 });
+    const response = await sendGrab(createServer(), fakeCli);
+
+    assert.deepEqual((await readAgentEvents(response)).slice(-2), [
+      { type: "error", message: "gemini exited with code 1", code: "agent" },
+      { type: "done" },
+    ]);
+  });
+});
@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+import { startServer } from "./server.js";
+
+// NOTE: MCP clients spawn this process and talk to it over stdio, so it
+// stays in the foreground and exits with the client
+startServer().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
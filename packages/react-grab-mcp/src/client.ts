@@ -0,0 +1,152 @@
+import type { init, ReactGrabAPI } from "react-grab/core";
+import { BRIDGE_PATH, DEFAULT_PORT } from "./constants.js";
+import type { BridgeRequest, PageMessage } from "./protocol.js";
+
+const DEFAULT_BRIDGE_URL = `ws://localhost:${DEFAULT_PORT}${BRIDGE_PATH}`;
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+const MAX_CONTEXT_ELEMENTS = 10;
+
+interface McpBridgeOptions {
+  url?: string;
+}
+
+const parseBridgeRequest = (data: unknown): BridgeRequest | null => {
+  if (typeof data !== "string") return null;
+  try {
+    const message = JSON.parse(data) as Partial<BridgeRequest>;
+    return message.type === "request" &&
+      typeof message.id === "string" &&
+      typeof message.params?.selector === "string"
+      ? (message as BridgeRequest)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const handleRequest = async (
+  api: ReactGrabAPI,
+  request: BridgeRequest,
+): Promise<string> => {
+  const { selector } = request.params;
+  const elements = Array.from(document.querySelectorAll(selector));
+  if (elements.length === 0) {
+    throw new Error(`No element matches "${selector}"`);
+  }
+
+  if (request.method === "highlight_element") {
+    elements[0].scrollIntoView({ block: "center", behavior: "smooth" });
+    api.highlightElement(elements);
+    return `Highlighted ${elements.length} element${elements.length === 1 ? "" : "s"} matching "${selector}"`;
+  }
+
+  const contexts = await Promise.all(
+    elements
+      .slice(0, MAX_CONTEXT_ELEMENTS)
+      .map((element) => api.getElementContext(element)),
+  );
+  return contexts.join("\n\n");
+};
+
+// NOTE: keeps retrying with backoff, so a page loaded before the agent
+// starts the MCP server still connects once it's up
+export const connectMcpBridge = (
+  api: ReactGrabAPI,
+  { url = DEFAULT_BRIDGE_URL }: McpBridgeOptions = {},
+) => {
+  let socket: WebSocket | null = null;
+  let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+  let reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+  let isDisposed = false;
+
+  const send = (message: PageMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const respond = async (request: BridgeRequest) => {
+    try {
+      const result = await handleRequest(api, request);
+      send({ type: "response", id: request.id, result });
+    } catch (error) {
+      send({
+        type: "response",
+        id: request.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  const connect = () => {
+    const nextSocket = new WebSocket(url);
+    socket = nextSocket;
+    nextSocket.addEventListener("open", () => {
+      reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+    });
+    nextSocket.addEventListener("message", (event) => {
+      const request = parseBridgeRequest(event.data);
+      if (request) void respond(request);
+    });
+    nextSocket.addEventListener("close", () => {
+      if (isDisposed) return;
+      reconnectTimeout = setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    });
+  };
+
+  // NOTE: grabs are only forwarded while the bridge is open, so copying never
+  // fails just because no agent is listening
+  const removeSink = api.addSink({
+    name: "mcp",
+    send: (grab) => send({ type: "grab", grab }),
+  });
+
+  connect();
+
+  return () => {
+    isDisposed = true;
+    clearTimeout(reconnectTimeout);
+    socket?.close();
+    removeSink();
+  };
+};
+
+declare global {
+  interface Window {
+    __REACT_GRAB__?: ReturnType<typeof init>;
+  }
+}
+
+let detachMcpBridge: (() => void) | undefined;
+
+// NOTE: importing this module already attaches with the default url, so an
+// explicit call replaces that bridge instead of opening a second socket and
+// adding a second "mcp" sink
+export const attachMcpBridge = (options: McpBridgeOptions = {}) => {
+  if (typeof window === "undefined") return;
+
+  detachMcpBridge?.();
+
+  const api = window.__REACT_GRAB__;
+  if (api) {
+    detachMcpBridge = connectMcpBridge(api, options);
+    return detachMcpBridge;
+  }
+
+  let disconnect: (() => void) | undefined;
+  const handleInit = (event: Event) => {
+    const customEvent = event as CustomEvent<ReactGrabAPI>;
+    disconnect = connectMcpBridge(customEvent.detail, options);
+  };
+  window.addEventListener("react-grab:init", handleInit, { once: true });
+
+  detachMcpBridge = () => {
+    window.removeEventListener("react-grab:init", handleInit);
+    disconnect?.();
+  };
+  return detachMcpBridge;
+};
+
+attachMcpBridge();
@@ -0,0 +1,2 @@
+export const DEFAULT_PORT = 4723;
+export const BRIDGE_PATH = "/bridge";
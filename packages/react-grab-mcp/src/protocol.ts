@@ -0,0 +1,24 @@
+import type { Grab } from "react-grab/core";
+
+export type BridgeMethod = "get_element_context" | "highlight_element";
+
+export interface BridgeRequest {
+  type: "request";
+  id: string;
+  method: BridgeMethod;
+  params: { selector: string };
+}
+
+export interface BridgeResponse {
+  type: "response";
+  id: string;
+  result?: string;
+  error?: string;
+}
+
+export interface BridgeGrabMessage {
+  type: "grab";
+  grab: Grab;
+}
+
+export type PageMessage = BridgeResponse | BridgeGrabMessage;
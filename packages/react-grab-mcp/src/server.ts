@@ -0,0 +1,302 @@
+import type { IncomingMessage, Server } from "node:http";
+import type { Duplex } from "node:stream";
+import { serve } from "@hono/node-server";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  acceptWebSocket,
+  createGrabReceiver,
+  rejectDisallowedUpgrade,
+  type GrabReceiver,
+  type WebSocketConnection,
+} from "@react-grab/agent-server/receiver";
+import type { Grab } from "react-grab/core";
+import { z } from "zod";
+import { BRIDGE_PATH, DEFAULT_PORT } from "./constants.js";
+import type { BridgeMethod, BridgeRequest, PageMessage } from "./protocol.js";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const DEFAULT_LIST_LIMIT = 10;
+const NO_PAGE_MESSAGE =
+  "No page is connected. Open your app with @react-grab/mcp/client loaded.";
+
+interface PendingRequest {
+  resolve: (result: string) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+export interface PageBridge {
+  isConnected: () => boolean;
+  request: (method: BridgeMethod, selector: string) => Promise<string>;
+  handleConnection: (connection: WebSocketConnection) => void;
+}
+
+const parsePageMessage = (message: string): PageMessage | null => {
+  try {
+    const data = JSON.parse(message) as Partial<PageMessage>;
+    if (data.type === "response" && typeof data.id === "string") {
+      return data as PageMessage;
+    }
+    if (data.type === "grab" && typeof data.grab?.content === "string") {
+      return data as PageMessage;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+};
+
+// NOTE: requests go to the most recently connected page, which is the tab
+// the user opened or reloaded last
+export const createPageBridge = (receiver: GrabReceiver): PageBridge => {
+  const connections: WebSocketConnection[] = [];
+  const pendingRequests = new Map<string, PendingRequest>();
+  let lastRequestId = 0;
+
+  const settleRequest = (
+    id: string,
+    settle: (pendingRequest: PendingRequest) => void,
+  ) => {
+    const pendingRequest = pendingRequests.get(id);
+    if (!pendingRequest) return;
+    clearTimeout(pendingRequest.timeout);
+    pendingRequests.delete(id);
+    settle(pendingRequest);
+  };
+
+  const handleConnection = (connection: WebSocketConnection) => {
+    connections.push(connection);
+
+    connection.onMessage((message) => {
+      const data = parsePageMessage(message);
+      if (data?.type === "grab") {
+        receiver.addGrab(data.grab);
+      } else if (data?.type === "response") {
+        settleRequest(data.id, (pendingRequest) =>
+          data.error
+            ? pendingRequest.reject(new Error(data.error))
+            : pendingRequest.resolve(data.result ?? ""),
+        );
+      }
+    });
+
+    connection.onClose(() => {
+      const connectionIndex = connections.indexOf(connection);
+      if (connectionIndex !== -1) connections.splice(connectionIndex, 1);
+    });
+  };
+
+  const request = (method: BridgeMethod, selector: string) => {
+    const connection = connections.at(-1);
+    if (!connection) return Promise.reject(new Error(NO_PAGE_MESSAGE));
+
+    const id = String(++lastRequestId);
+    const message: BridgeRequest = {
+      type: "request",
+      id,
+      method,
+      params: { selector },
+    };
+
+    return new Promise<string>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        settleRequest(id, (pendingRequest) =>
+          pendingRequest.reject(
+            new Error(`The page did not respond to ${method} in time`),
+          ),
+        );
+      }, REQUEST_TIMEOUT_MS);
+      pendingRequests.set(id, { resolve, reject, timeout });
+      connection.send(JSON.stringify(message));
+    });
+  };
+
+  return {
+    isConnected: () => connections.length > 0,
+    request,
+    handleConnection,
+  };
+};
+
+const textResult = (text: string, isError = false) => ({
+  content: [{ type: "text" as const, text }],
+  isError,
+});
+
+const formatGrabSummary = (grab: Grab, index: number): string => {
+  const [element] = grab.elements;
+  const target = element
+    ? [
+        element.componentName ? `<${element.componentName}>` : element.tagName,
+        element.fileName
+          ? `in ${element.fileName}${element.lineNumber ? `:${element.lineNumber}` : ""}`
+          : null,
+      ]
+        .filter(Boolean)
+        .join(" ")
+    : "unknown element";
+  const extraElements =
+    grab.elements.length > 1 ? ` (+${grab.elements.length - 1} more)` : "";
+  const prompt = grab.prompt ? ` — "${grab.prompt}"` : "";
+
+  return `${index + 1}. [${grab.id}] ${target}${extraElements}${prompt}\n   ${grab.url} at ${new Date(grab.createdAt).toISOString()}`;
+};
+
+const runBridgeTool = async (
+  bridge: PageBridge,
+  method: BridgeMethod,
+  selector: string,
+) => {
+  try {
+    return textResult(await bridge.request(method, selector));
+  } catch (error) {
+    return textResult(
+      error instanceof Error ? error.message : "Unknown error",
+      true,
+    );
+  }
+};
+
+export const createServer = (receiver: GrabReceiver, bridge: PageBridge) => {
+  const server = new McpServer({
+    name: "react-grab",
+    version: process.env.VERSION ?? "0.0.0",
+  });
+
+  server.registerTool(
+    "get_latest_grab",
+    {
+      description:
+        "Get the most recent element the user grabbed with React Grab: its component stack, source location, HTML preview and any prompt they typed.",
+      inputSchema: {},
+    },
+    async () => {
+      const [grab] = receiver.getGrabs();
+      if (!grab) {
+        return textResult(
+          bridge.isConnected()
+            ? "No grabs yet. Ask the user to grab an element on the page."
+            : `No grabs yet. ${NO_PAGE_MESSAGE}`,
+        );
+      }
+
+      const images = (grab.attachments ?? []).map((attachment) => ({
+        type: "image" as const,
+        data: attachment.data,
+        mimeType: attachment.mediaType,
+      }));
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Grabbed from ${grab.url}\n\n${grab.content}`,
+          },
+          ...images,
+        ],
+      };
+    },
+  );
+
+  server.registerTool(
+    "list_grabs",
+    {
+      description:
+        "List recent React Grab grabs, newest first, with the component, source file and prompt of each.",
+      inputSchema: {
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(50)
+          .optional()
+          .describe(
+            `How many grabs to list (defaults to ${DEFAULT_LIST_LIMIT})`,
+          ),
+      },
+    },
+    async ({ limit = DEFAULT_LIST_LIMIT }) => {
+      const grabs = receiver.getGrabs().slice(0, limit);
+      if (grabs.length === 0) return textResult("No grabs yet.");
+      return textResult(grabs.map(formatGrabSummary).join("\n"));
+    },
+  );
+
+  server.registerTool(
+    "get_element_context",
+    {
+      description:
+        "Get React Grab context (component stack, source location, HTML preview) for the elements matching a CSS selector on the connected page.",
+      inputSchema: {
+        selector: z.string().describe("CSS selector to look up on the page"),
+      },
+    },
+    async ({ selector }) =>
+      runBridgeTool(bridge, "get_element_context", selector),
+  );
+
+  server.registerTool(
+    "highlight_element",
+    {
+      description:
+        "Scroll to and highlight the elements matching a CSS selector on the connected page, so the user can see what you are referring to.",
+      inputSchema: {
+        selector: z.string().describe("CSS selector to highlight on the page"),
+      },
+    },
+    async ({ selector }) =>
+      runBridgeTool(bridge, "highlight_element", selector),
+  );
+
+  return server;
+};
+
+// NOTE: stdout carries the MCP protocol, so everything here logs to stderr
+const startBridge = (
+  port: number,
+  receiver: GrabReceiver,
+  bridge: PageBridge,
+) => {
+  const server = serve({ fetch: receiver.app.fetch, port }) as Server;
+
+  server.on(
+    "upgrade",
+    (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const { pathname } = new URL(request.url ?? "/", "http://localhost");
+      if (pathname !== BRIDGE_PATH) {
+        receiver.handleUpgrade(request, socket, head);
+        return;
+      }
+      // NOTE: a page on the bridge answers the agent's tools and feeds it
+      // grabs, so only pages the user is developing may connect
+      if (rejectDisallowedUpgrade(request, socket)) return;
+
+      const connection = acceptWebSocket(request, socket, head);
+      if (connection) bridge.handleConnection(connection);
+    },
+  );
+
+  server.on("listening", () => {
+    console.error(`[React Grab] MCP page bridge started on port ${port}`);
+  });
+  server.on("error", (error) => {
+    console.error(
+      `[React Grab] MCP page bridge could not listen on port ${port}: ${error.message}`,
+    );
+  });
+};
+
+export const startServer = async (port: number = DEFAULT_PORT) => {
+  const receiver = createGrabReceiver();
+  const bridge = createPageBridge(receiver);
+
+  startBridge(port, receiver, bridge);
+
+  const server = createServer(receiver, bridge);
+  await server.connect(new StdioServerTransport());
+  return server;
+};
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  startServer().catch(console.error);
+}
@@ -1,6 +1,16 @@
 import { createSignal } from "solid-js";
 import type { Accessor } from "solid-js";
-import type { AgentContext, AgentSession, AgentOptions, OverlayBounds } from "./types.js";
+import type {
+  AgentAttachment,
+  AgentContext,
+  AgentErrorCode,
+  AgentEvent,
+  AgentPermissionDecision,
+  AgentPermissionRequest,
+  AgentSession,
+  AgentOptions,
+  OverlayBounds,
+} from "./types.js";
 import {
   createSession,
   saveSessionById,
@@ -10,22 +20,60 @@ import {
   clearSessionById,
   updateSession,
 } from "./utils/agent-session.js";
+import {
+  appendAgentEvent,
+  getAgentErrorCode,
+  getAgentEventStatus,
+  normalizeAgentEvent,
+} from "./utils/agent-event.js";
 import { createElementBounds } from "./utils/create-element-bounds.js";
-import { generateSnippet } from "./utils/generate-snippet.js";
+import {
+  createElementFingerprint,
+  findElementByFingerprint,
+} from "./utils/element-fingerprint.js";
+import {
+  generateSnippet,
+  type GenerateSnippetOptions,
+} from "./utils/generate-snippet.js";
 import { getNearestComponentName } from "./context.js";
+import {
+  AGENT_DEFAULT_MAX_CONCURRENCY,
+  AGENT_RECENT_SESSIONS_MAX,
+} from "./constants.js";
 
 interface StartSessionParams {
   element: Element;
+  elements?: Element[];
+  componentName?: string;
   prompt: string;
   position: { x: number; y: number };
   selectionBounds?: OverlayBounds;
+  attachments?: AgentAttachment[];
 }
 
+type SessionStreamFactory = (
+  signal: AbortSignal,
+) => AsyncIterable<string | AgentEvent>;
+
 export interface AgentManager {
   sessions: Accessor<Map<string, AgentSession>>;
+  recentSessions: Accessor<AgentSession[]>;
   isProcessing: Accessor<boolean>;
   tryResumeSessions: () => void;
-  startSession: (params: StartSessionParams) => Promise<void>;
+  startSession: (
+    params: StartSessionParams,
+  ) => Promise<AgentSession | undefined>;
+  followUpSession: (sessionId: string, prompt: string) => void;
+  dismissSession: (sessionId: string) => void;
+  retrySession: (sessionId: string) => AgentSession | undefined;
+  undoSession: (sessionId: string) => Promise<void>;
+  respondToPermission: (
+    sessionId: string,
+    decision: AgentPermissionDecision,
+  ) => void;
+  supportsFollowUp: () => boolean;
+  supportsUndo: () => boolean;
+  moveQueuedSession: (sessionId: string, offset: number) => void;
   abortSession: (sessionId: string) => void;
   abortAllSessions: () => void;
   updateSessionBoundsOnViewportChange: () => void;
@@ -36,12 +84,17 @@ export interface AgentManager {
 
 export const createAgentManager = (
   initialAgentOptions: AgentOptions | undefined,
+  snippetOptions: Omit<GenerateSnippetOptions, "format" | "prompt"> = {},
 ): AgentManager => {
   const [sessions, setSessions] = createSignal<Map<string, AgentSession>>(
     new Map(),
   );
   const abortControllers = new Map<string, AbortController>();
   const sessionElements = new Map<string, Element>();
+  const [recentSessions, setRecentSessions] = createSignal<AgentSession[]>([]);
+  const [queuedSessionIds, setQueuedSessionIds] = createSignal<string[]>([]);
+  const reacquiringSessionIds = new Set<string>();
+  const queuedStreams = new Map<string, SessionStreamFactory>();
 
   let agentOptions = initialAgentOptions;
 
@@ -53,30 +106,196 @@ export const createAgentManager = (
     return agentOptions;
   };
 
-  const isProcessing = (): boolean => sessions().size > 0;
+  // NOTE: finished sessions stay in the map for follow-ups and undo, so only
+  // running and queued ones count as work that Escape would abort
+  const isProcessing = (): boolean =>
+    queuedSessionIds().length > 0 ||
+    Array.from(sessions().values()).some((session) => session.isStreaming);
+
+  const supportsFollowUp = (): boolean =>
+    Boolean(agentOptions?.provider?.followUp);
+
+  const supportsUndo = (): boolean => Boolean(agentOptions?.provider?.undo);
+
+  const getMaxConcurrency = (): number =>
+    Math.max(1, agentOptions?.maxConcurrency ?? AGENT_DEFAULT_MAX_CONCURRENCY);
+
+  const setQueue = (queue: string[]) => {
+    const storage = agentOptions?.storage;
+    setQueuedSessionIds(queue);
+
+    queue.forEach((sessionId, index) => {
+      const session = sessions().get(sessionId);
+      if (!session || session.queuePosition === index + 1) return;
+
+      const queuedSession = updateSession(
+        session,
+        { queuePosition: index + 1, lastStatus: `Queued #${index + 1}` },
+        storage,
+      );
+      setSessions((prev) => new Map(prev).set(sessionId, queuedSession));
+    });
+  };
+
+  const removeFromQueue = (sessionId: string): boolean => {
+    if (!queuedStreams.delete(sessionId)) return false;
+    setQueue(queuedSessionIds().filter((queuedId) => queuedId !== sessionId));
+    return true;
+  };
+
+  // NOTE: removed sessions stay listed in the dashboard until they age out
+  const archiveSession = (session: AgentSession) => {
+    const archivedSession: AgentSession = {
+      ...session,
+      isStreaming: false,
+      queuePosition: undefined,
+      pendingPermission: undefined,
+      completedAt: session.completedAt ?? Date.now(),
+    };
+    const otherSessions = recentSessions().filter(
+      (recentSession) => recentSession.id !== session.id,
+    );
+    const nextRecentSessions = [archivedSession, ...otherSessions];
+
+    for (const expiredSession of nextRecentSessions.slice(
+      AGENT_RECENT_SESSIONS_MAX,
+    )) {
+      sessionElements.delete(expiredSession.id);
+    }
+    setRecentSessions(nextRecentSessions.slice(0, AGENT_RECENT_SESSIONS_MAX));
+  };
+
+  const removeSession = (sessionId: string) => {
+    const session = sessions().get(sessionId);
+    if (session) archiveSession(session);
+    clearSessionById(sessionId, agentOptions?.storage);
+    setSessions((prev) => {
+      const next = new Map(prev);
+      next.delete(sessionId);
+      return next;
+    });
+  };
+
+  const sendPermissionDecision = async (
+    sessionId: string,
+    requestId: string,
+    decision: AgentPermissionDecision,
+  ) => {
+    const respond = agentOptions?.provider?.respondToPermission;
+    if (!respond) return;
+
+    try {
+      await respond(sessionId, requestId, decision);
+    } catch (error) {
+      const session = sessions().get(sessionId);
+      if (session) {
+        agentOptions?.onError?.(
+          error instanceof Error ? error : new Error("Approval failed"),
+          session,
+        );
+      }
+    }
+  };
+
+  // NOTE: onPermissionRequest can settle requests programmatically; returning
+  // undefined leaves the decision to the buttons in the selection label
+  const applyPermissionPolicy = async (
+    session: AgentSession,
+    request: AgentPermissionRequest,
+  ) => {
+    const decision = await agentOptions?.onPermissionRequest?.(
+      request,
+      session,
+    );
+    if (decision) {
+      await sendPermissionDecision(session.id, request.id, decision);
+    }
+  };
 
   const executeSessionStream = async (
     session: AgentSession,
-    streamIterator: AsyncIterable<string>,
+    streamIterator: AsyncIterable<string | AgentEvent>,
   ) => {
     const storage = agentOptions?.storage;
     let didComplete = false;
     let wasAborted = false;
     let hadError = false;
 
+    const failSession = (
+      errorMessage: string,
+      code: AgentErrorCode,
+      error: Error = new Error(errorMessage),
+    ) => {
+      const currentSession = sessions().get(session.id);
+      if (!currentSession) return;
+
+      const errorEvent: AgentEvent = {
+        type: "error",
+        message: errorMessage,
+        code,
+      };
+      // NOTE: network errors (e.g. page reload) keep the session streaming so
+      // it can be resumed
+      const isResumable = code === "network";
+      const errorSession = updateSession(
+        currentSession,
+        {
+          lastStatus: getAgentEventStatus(errorEvent, currentSession),
+          events: appendAgentEvent(currentSession, errorEvent),
+          ...(isResumable
+            ? {}
+            : { isStreaming: false, completedAt: Date.now() }),
+        },
+        storage,
+      );
+      setSessions((prev) => new Map(prev).set(session.id, errorSession));
+
+      if (!isResumable) {
+        hadError = true;
+        agentOptions?.onError?.(error, errorSession);
+      }
+    };
+
     try {
-      for await (const status of streamIterator) {
+      for await (const item of streamIterator) {
+        const event = normalizeAgentEvent(item);
+        if (event.type === "done") break;
+        if (event.type === "error") {
+          failSession(event.message, event.code);
+          return;
+        }
+
         const currentSessions = sessions();
         const currentSession = currentSessions.get(session.id);
         if (!currentSession) break;
 
         const updatedSession = updateSession(
           currentSession,
-          { lastStatus: status },
+          {
+            lastStatus: getAgentEventStatus(event, currentSession),
+            events: appendAgentEvent(currentSession, event),
+            ...(event.type === "file-changes"
+              ? { fileChanges: event.files }
+              : {}),
+            ...(event.type === "permission-request"
+              ? { pendingPermission: event.request }
+              : {}),
+            ...(event.type === "permission-decision"
+              ? { pendingPermission: undefined }
+              : {}),
+          },
           storage,
         );
         setSessions((prev) => new Map(prev).set(session.id, updatedSession));
-        agentOptions?.onStatus?.(status, updatedSession);
+        agentOptions?.onStatus?.(
+          updatedSession.lastStatus,
+          updatedSession,
+          event,
+        );
+
+        if (event.type === "permission-request") {
+          void applyPermissionPolicy(updatedSession, event.request);
+        }
       }
 
       didComplete = true;
@@ -85,103 +304,134 @@ export const createAgentManager = (
       if (finalSession) {
         const completedSession = updateSession(
           finalSession,
-          { isStreaming: false },
+          { isStreaming: false, completedAt: Date.now() },
           storage,
         );
         setSessions((prev) => new Map(prev).set(session.id, completedSession));
         agentOptions?.onComplete?.(completedSession);
       }
     } catch (error) {
-      const currentSessions = sessions();
-      const currentSession = currentSessions.get(session.id);
       if (error instanceof Error && error.name === "AbortError") {
         wasAborted = true;
+        const currentSession = sessions().get(session.id);
         if (currentSession) {
           const element = sessionElements.get(session.id);
           agentOptions?.onAbort?.(currentSession, element);
         }
       } else {
-        const errorMessage =
-          error instanceof Error ? error.message : "Unknown error";
-        const lowerMessage = errorMessage.toLowerCase();
-        const isNetworkError =
-          lowerMessage.includes("network") ||
-          lowerMessage.includes("fetch") ||
-          lowerMessage.includes("load failed") ||
-          lowerMessage.includes("cancelled") ||
-          lowerMessage.includes("canceled") ||
-          lowerMessage.includes("aborted");
-
-        if (isNetworkError) {
-          // Don't mark as non-streaming on network errors (e.g., page reload)
-          // This allows the session to be resumed
-          if (currentSession) {
-            const errorSession = updateSession(
-              currentSession,
-              {
-                lastStatus: `Error: ${errorMessage}`,
-              },
-              storage,
-            );
-            setSessions((prev) => new Map(prev).set(session.id, errorSession));
-          }
-        } else {
-          hadError = true;
-          if (currentSession) {
-            const errorSession = updateSession(
-              currentSession,
-              {
-                lastStatus: `Error: ${errorMessage}`,
-                isStreaming: false,
-              },
-              storage,
-            );
-            setSessions((prev) => new Map(prev).set(session.id, errorSession));
-            if (error instanceof Error) {
-              agentOptions?.onError?.(error, errorSession);
-            }
-          }
-        }
+        failSession(
+          error instanceof Error ? error.message : "Unknown error",
+          getAgentErrorCode(error),
+          error instanceof Error ? error : undefined,
+        );
       }
     } finally {
       abortControllers.delete(session.id);
-
-      const removeSession = () => {
-        sessionElements.delete(session.id);
-        clearSessionById(session.id, storage);
-        setSessions((prev) => {
-          const next = new Map(prev);
-          next.delete(session.id);
-          return next;
-        });
-      };
+      drainQueue();
 
       if (wasAborted) {
-        removeSession();
-      } else if (didComplete || hadError) {
+        removeSession(session.id);
+      } else if (hadError || (didComplete && !supportsFollowUp())) {
         // HACK: Delay removal to show status message for 1.5 seconds
-        setTimeout(removeSession, 1500);
+        setTimeout(() => removeSession(session.id), 1500);
       }
+      // NOTE: completed sessions stay open for follow-up prompts until the
+      // user dismisses them
     }
   };
 
-  const tryReacquireElement = (session: AgentSession): Element | undefined => {
-    const { selectionBounds, tagName } = session;
-    if (!selectionBounds) return undefined;
-
-    const centerX = selectionBounds.x + selectionBounds.width / 2;
-    const centerY = selectionBounds.y + selectionBounds.height / 2;
+  const launchSessionStream = (
+    sessionId: string,
+    createStream: SessionStreamFactory,
+  ) => {
+    const session = sessions().get(sessionId);
+    if (!session) return;
 
-    const element = document.elementFromPoint(centerX, centerY);
-    if (!element) return undefined;
+    const abortController = new AbortController();
+    abortControllers.set(sessionId, abortController);
+    void executeSessionStream(session, createStream(abortController.signal));
+  };
 
-    if (tagName && element.tagName.toLowerCase() !== tagName) {
-      return undefined;
+  // NOTE: sessions wait in FIFO order until a slot frees up, so parallel grabs
+  // don't have several agents editing the same files at once
+  const drainQueue = () => {
+    const storage = agentOptions?.storage;
+    const queue = queuedSessionIds();
+    const freeSlots = getMaxConcurrency() - abortControllers.size;
+    if (freeSlots <= 0 || queue.length === 0) return;
+
+    const startingSessionIds = queue.slice(0, freeSlots);
+    setQueue(queue.slice(freeSlots));
+
+    for (const sessionId of startingSessionIds) {
+      const createStream = queuedStreams.get(sessionId);
+      const session = sessions().get(sessionId);
+      queuedStreams.delete(sessionId);
+      if (!createStream || !session) continue;
+
+      const startingSession = updateSession(
+        session,
+        { queuePosition: undefined, lastStatus: "Please wait…" },
+        storage,
+      );
+      setSessions((prev) => new Map(prev).set(sessionId, startingSession));
+      launchSessionStream(sessionId, createStream);
     }
+  };
+
+  const scheduleSessionStream = (
+    sessionId: string,
+    createStream: SessionStreamFactory,
+  ) => {
+    queuedStreams.set(sessionId, createStream);
+    setQueue([...queuedSessionIds(), sessionId]);
+    drainQueue();
+  };
 
+  // NOTE: sessions saved before fingerprints existed only have their bounds
+  const getElementAtPreviousBounds = (
+    session: AgentSession,
+  ): Element | null => {
+    const { selectionBounds, tagName } = session;
+    if (!selectionBounds) return null;
+
+    const element = document.elementFromPoint(
+      selectionBounds.x + selectionBounds.width / 2,
+      selectionBounds.y + selectionBounds.height / 2,
+    );
+    if (!element) return null;
+    if (tagName && element.tagName.toLowerCase() !== tagName) return null;
     return element;
   };
 
+  const reacquireSessionElement = async (session: AgentSession) => {
+    if (reacquiringSessionIds.has(session.id)) return;
+    reacquiringSessionIds.add(session.id);
+
+    try {
+      const element = session.fingerprint
+        ? await findElementByFingerprint(
+            session.fingerprint,
+            session.selectionBounds,
+          )
+        : getElementAtPreviousBounds(session);
+      if (!element || !sessions().has(session.id)) return;
+
+      sessionElements.set(session.id, element);
+      const selectionBounds = createElementBounds(element);
+      setSessions((prev) => {
+        const currentSession = prev.get(session.id);
+        if (!currentSession) return prev;
+        return new Map(prev).set(session.id, {
+          ...currentSession,
+          selectionBounds,
+        });
+      });
+    } finally {
+      reacquiringSessionIds.delete(session.id);
+    }
+  };
+
   const tryResumeSessions = () => {
     const storage = agentOptions?.storage;
     if (!storage) {
@@ -216,10 +466,7 @@ export const createAgentManager = (
     saveSessions(streamingSessionsMap, storage);
 
     for (const existingSession of streamingSessions) {
-      const reacquiredElement = tryReacquireElement(existingSession);
-      if (reacquiredElement) {
-        sessionElements.set(existingSession.id, reacquiredElement);
-      }
+      void reacquireSessionElement(existingSession);
 
       const sessionWithResumeStatus = {
         ...existingSession,
@@ -234,6 +481,8 @@ export const createAgentManager = (
       );
       agentOptions?.onResume?.(sessionWithResumeStatus);
 
+      if (existingSession.queuePosition) continue;
+
       const abortController = new AbortController();
       abortControllers.set(existingSession.id, abortController);
 
@@ -244,25 +493,54 @@ export const createAgentManager = (
       );
       void executeSessionStream(existingSession, streamIterator);
     }
+
+    // NOTE: queued sessions never reached the server, so they go back into
+    // the queue instead of being resumed
+    const { provider } = agentOptions;
+    const queuedSessions = streamingSessions
+      .filter((session) => session.queuePosition)
+      .sort((a, b) => (a.queuePosition ?? 0) - (b.queuePosition ?? 0));
+
+    for (const queuedSession of queuedSessions) {
+      const followUpPrompt = queuedSession.followUpPrompts?.at(-1);
+      scheduleSessionStream(queuedSession.id, (signal) =>
+        followUpPrompt && provider.followUp
+          ? provider.followUp(queuedSession.id, followUpPrompt, signal)
+          : provider.send(queuedSession.context, signal),
+      );
+    }
   };
 
-  const startSession = async (params: StartSessionParams) => {
+  const startSession = async (
+    params: StartSessionParams,
+  ): Promise<AgentSession | undefined> => {
     const { element, prompt, position, selectionBounds } = params;
+    const elements = params.elements ?? [element];
     const storage = agentOptions?.storage;
 
     if (!agentOptions?.provider) {
-      return;
+      return undefined;
     }
 
-    const elements = [element];
-    const content = await generateSnippet(elements);
+    const content = await generateSnippet(elements, {
+      ...snippetOptions,
+      format: agentOptions.format,
+      numbered: elements.length > 1 && !params.componentName,
+      componentName: params.componentName,
+    });
     const context: AgentContext = {
       content,
       prompt,
       options: agentOptions?.getOptions?.() as unknown,
+      approvalMode: agentOptions.approvalMode,
+      attachments: params.attachments,
     };
     const tagName = (element.tagName || "").toLowerCase() || undefined;
-    const componentName = (await getNearestComponentName(element)) || undefined;
+    const componentName =
+      params.componentName ??
+      ((await getNearestComponentName(element)) || undefined);
+
+    const fingerprint = await createElementFingerprint(element);
 
     const session = createSession(
       context,
@@ -272,22 +550,160 @@ export const createAgentManager = (
       componentName,
     );
     session.lastStatus = "Please wait…";
+    session.fingerprint = fingerprint;
+    session.filePath = fingerprint.filePath;
+    session.lineNumber = fingerprint.lineNumber;
     sessionElements.set(session.id, element);
     setSessions((prev) => new Map(prev).set(session.id, session));
     saveSessionById(session, storage);
     agentOptions.onStart?.(session);
 
-    const abortController = new AbortController();
-    abortControllers.set(session.id, abortController);
+    const { provider } = agentOptions;
+    scheduleSessionStream(session.id, (signal) =>
+      provider.send(session.context, signal),
+    );
 
-    const streamIterator = agentOptions.provider.send(
-      context,
-      abortController.signal,
+    return sessions().get(session.id) ?? session;
+  };
+
+  const followUpSession = (sessionId: string, prompt: string) => {
+    const session = sessions().get(sessionId);
+    const followUp = agentOptions?.provider?.followUp;
+    if (!session || session.isStreaming || !followUp) return;
+
+    const storage = agentOptions?.storage;
+    const followUpSession = updateSession(
+      session,
+      {
+        lastStatus: "Please wait…",
+        isStreaming: true,
+        completedAt: undefined,
+        followUpPrompts: [...(session.followUpPrompts ?? []), prompt],
+      },
+      storage,
+    );
+    setSessions((prev) => new Map(prev).set(sessionId, followUpSession));
+    agentOptions?.onFollowUp?.(prompt, followUpSession);
+
+    scheduleSessionStream(sessionId, (signal) =>
+      followUp(sessionId, prompt, signal),
+    );
+  };
+
+  const dismissSession = (sessionId: string) => {
+    removeFromQueue(sessionId);
+    abortControllers.get(sessionId)?.abort();
+    abortControllers.delete(sessionId);
+    removeSession(sessionId);
+  };
+
+  const retrySession = (sessionId: string): AgentSession | undefined => {
+    const provider = agentOptions?.provider;
+    const previousSession =
+      sessions().get(sessionId) ??
+      recentSessions().find((recentSession) => recentSession.id === sessionId);
+    if (!provider || !previousSession || previousSession.isStreaming) {
+      return undefined;
+    }
+
+    const storage = agentOptions?.storage;
+    const { content, prompt, options, attachments } = previousSession.context;
+    const session: AgentSession = {
+      ...createSession(
+        {
+          content,
+          prompt,
+          options,
+          approvalMode: agentOptions?.approvalMode,
+          attachments,
+        },
+        previousSession.position,
+        previousSession.selectionBounds,
+        previousSession.tagName,
+        previousSession.componentName,
+      ),
+      filePath: previousSession.filePath,
+      lineNumber: previousSession.lineNumber,
+      fingerprint: previousSession.fingerprint,
+      lastStatus: "Please wait…",
+    };
+
+    const element = sessionElements.get(sessionId);
+    if (element) sessionElements.set(session.id, element);
+    setSessions((prev) => new Map(prev).set(session.id, session));
+    saveSessionById(session, storage);
+    agentOptions?.onStart?.(session);
+
+    scheduleSessionStream(session.id, (signal) =>
+      provider.send(session.context, signal),
     );
-    void executeSessionStream(session, streamIterator);
+
+    return sessions().get(session.id) ?? session;
+  };
+
+  const undoSession = async (sessionId: string) => {
+    const session = sessions().get(sessionId);
+    const undo = agentOptions?.provider?.undo;
+    if (!session || session.isStreaming || !undo) return;
+
+    const storage = agentOptions?.storage;
+    let undoError: Error | undefined;
+    try {
+      await undo(sessionId);
+    } catch (error) {
+      undoError = error instanceof Error ? error : new Error("Undo failed");
+    }
+
+    const currentSession = sessions().get(sessionId);
+    if (!currentSession) return;
+
+    const undoneSession = updateSession(
+      currentSession,
+      undoError
+        ? { lastStatus: `Undo failed: ${undoError.message}` }
+        : { lastStatus: "Changes reverted", fileChanges: [] },
+      storage,
+    );
+    setSessions((prev) => new Map(prev).set(sessionId, undoneSession));
+
+    if (undoError) {
+      agentOptions?.onError?.(undoError, undoneSession);
+    } else {
+      agentOptions?.onUndo?.(undoneSession);
+    }
+  };
+
+  const respondToPermission = (
+    sessionId: string,
+    decision: AgentPermissionDecision,
+  ) => {
+    const request = sessions().get(sessionId)?.pendingPermission;
+    if (!request) return;
+    void sendPermissionDecision(sessionId, request.id, decision);
+  };
+
+  const moveQueuedSession = (sessionId: string, offset: number) => {
+    const queue = [...queuedSessionIds()];
+    const index = queue.indexOf(sessionId);
+    if (index === -1) return;
+
+    const targetIndex = Math.min(
+      Math.max(index + offset, 0),
+      queue.length - 1,
+    );
+    queue.splice(index, 1);
+    queue.splice(targetIndex, 0, sessionId);
+    setQueue(queue);
   };
 
   const abortSession = (sessionId: string) => {
+    const session = sessions().get(sessionId);
+    if (session && removeFromQueue(sessionId)) {
+      agentOptions?.onAbort?.(session, sessionElements.get(sessionId));
+      removeSession(sessionId);
+      return;
+    }
+
     const controller = abortControllers.get(sessionId);
     if (controller) {
       controller.abort();
@@ -295,8 +711,11 @@ export const createAgentManager = (
   };
 
   const abortAllSessions = () => {
+    queuedStreams.clear();
+    setQueuedSessionIds([]);
     abortControllers.forEach((controller) => controller.abort());
     abortControllers.clear();
+    sessions().forEach(archiveSession);
     setSessions(new Map());
     clearSessions(agentOptions?.storage);
   };
@@ -309,25 +728,20 @@ export const createAgentManager = (
     let didUpdate = false;
 
     for (const [sessionId, session] of currentSessions) {
-      let element = sessionElements.get(sessionId);
+      const element = sessionElements.get(sessionId);
 
       if (!element || !document.contains(element)) {
-        const reacquiredElement = tryReacquireElement(session);
-        if (reacquiredElement) {
-          sessionElements.set(sessionId, reacquiredElement);
-          element = reacquiredElement;
-        }
+        void reacquireSessionElement(session);
+        continue;
       }
 
-      if (element && document.contains(element)) {
-        const newBounds = createElementBounds(element);
-        if (newBounds) {
-          updatedSessions.set(sessionId, {
-            ...session,
-            selectionBounds: newBounds,
-          });
-          didUpdate = true;
-        }
+      const newBounds = createElementBounds(element);
+      if (newBounds) {
+        updatedSessions.set(sessionId, {
+          ...session,
+          selectionBounds: newBounds,
+        });
+        didUpdate = true;
       }
     }
 
@@ -342,9 +756,18 @@ export const createAgentManager = (
 
   return {
     sessions,
+    recentSessions,
     isProcessing,
     tryResumeSessions,
     startSession,
+    followUpSession,
+    dismissSession,
+    retrySession,
+    undoSession,
+    respondToPermission,
+    moveQueuedSession,
+    supportsFollowUp,
+    supportsUndo,
     abortSession,
     abortAllSessions,
     updateSessionBoundsOnViewportChange,
@@ -0,0 +1,273 @@
+import { createSignal, For, onCleanup, Show } from "solid-js";
+import type { Component } from "solid-js";
+import type { AgentEvent, AgentSession } from "../types.js";
+import { VIEWPORT_MARGIN_PX, Z_INDEX_LABEL } from "../constants.js";
+import { cn } from "../utils/cn.js";
+
+type AgentDashboardSession = AgentSession & {
+  isActive: boolean;
+  isElementAvailable: boolean;
+};
+
+interface AgentDashboardProps {
+  sessions: AgentDashboardSession[];
+  onAbort?: (sessionId: string) => void;
+  onRetry?: (sessionId: string) => void;
+  onOpenFile?: (sessionId: string) => void;
+  onScrollToElement?: (sessionId: string) => void;
+}
+
+interface DashboardActionButtonProps {
+  label: string;
+  onClick?: () => void;
+}
+
+interface DashboardSessionRowProps {
+  session: AgentDashboardSession;
+  now: number;
+  onAbort?: (sessionId: string) => void;
+  onRetry?: (sessionId: string) => void;
+  onOpenFile?: (sessionId: string) => void;
+  onScrollToElement?: (sessionId: string) => void;
+}
+
+const CLOCK_INTERVAL_MS = 1000;
+
+const formatElapsedTime = (session: AgentSession, now: number): string => {
+  const elapsedSeconds = Math.max(
+    0,
+    Math.round(((session.completedAt ?? now) - session.createdAt) / 1000),
+  );
+  if (elapsedSeconds < 60) return `${elapsedSeconds}s`;
+  const elapsedMinutes = Math.floor(elapsedSeconds / 60);
+  if (elapsedMinutes < 60) return `${elapsedMinutes}m ${elapsedSeconds % 60}s`;
+  return `${Math.floor(elapsedMinutes / 60)}h ${elapsedMinutes % 60}m`;
+};
+
+const formatSessionTitle = (session: AgentSession): string => {
+  const tag = `<${session.tagName ?? "element"}>`;
+  return session.componentName ? `${tag} in ${session.componentName}` : tag;
+};
+
+const formatSessionLocation = (session: AgentSession): string | null => {
+  if (!session.filePath) return null;
+  return session.lineNumber !== undefined
+    ? `${session.filePath}:${session.lineNumber}`
+    : session.filePath;
+};
+
+const getSessionState = (session: AgentDashboardSession): string => {
+  if (session.queuePosition) return "Queued";
+  if (session.isStreaming) return "Running";
+  if (session.events?.at(-1)?.type === "error") return "Failed";
+  return session.isActive ? "Done" : "Closed";
+};
+
+const formatEventLine = (event: AgentEvent): string | null => {
+  switch (event.type) {
+    case "status":
+      return event.message;
+    case "text-delta":
+      return event.text;
+    case "tool-call":
+      return `Used ${event.name}`;
+    case "tool-result":
+      return event.isError ? `${event.name ?? "Tool"} failed` : null;
+    case "file-edit":
+      return `Edited ${event.path}`;
+    case "file-changes":
+      return event.files.length === 1
+        ? "1 file changed"
+        : `${event.files.length} files changed`;
+    case "permission-request":
+      return `Asked to use ${event.request.toolName}`;
+    case "permission-decision":
+      return event.decision === "deny" ? "Denied" : "Approved";
+    case "error":
+      return `Error: ${event.message}`;
+    case "done":
+      return null;
+  }
+};
+
+// NOTE: consecutive text deltas are one streamed message, so they are merged
+// into a single line of history
+const getStatusHistory = (events: AgentEvent[] = []): string[] => {
+  const lines: string[] = [];
+  let previousEvent: AgentEvent | undefined;
+
+  for (const event of events) {
+    const line = formatEventLine(event);
+    if (
+      line &&
+      event.type === "text-delta" &&
+      previousEvent?.type === event.type
+    ) {
+      lines[lines.length - 1] += line;
+    } else if (line && line !== lines.at(-1)) {
+      lines.push(line);
+    }
+    previousEvent = event;
+  }
+
+  return lines;
+};
+
+const DashboardActionButton: Component<DashboardActionButtonProps> = (
+  props,
+) => (
+  <button
+    class="contain-layout shrink-0 flex items-center rounded-xs bg-white [border-width:0.5px] border-solid border-[#B3B3B3] px-1 py-px text-[11px] leading-4 tracking-[-0.04em] font-medium text-black cursor-pointer hover:scale-105"
+    onClick={() => props.onClick?.()}
+  >
+    {props.label}
+  </button>
+);
+
+const DashboardSessionRow: Component<DashboardSessionRowProps> = (props) => {
+  const [isHistoryExpanded, setIsHistoryExpanded] = createSignal(false);
+  const statusHistory = () => getStatusHistory(props.session.events);
+
+  return (
+    <div class="flex flex-col gap-0.5 border-t-[0.5px] border-solid border-[#B3B3B3] pt-1">
+      <div class="flex items-center justify-between gap-1">
+        <span class="font-mono text-black text-[12px] leading-4 tracking-[-0.04em] font-medium truncate">
+          {formatSessionTitle(props.session)}
+        </span>
+        <span class="text-label-muted text-[11px] leading-4 shrink-0">
+          {getSessionState(props.session)} ·{" "}
+          {formatElapsedTime(props.session, props.now)}
+        </span>
+      </div>
+      <Show when={formatSessionLocation(props.session)}>
+        {(location) => (
+          <span class="text-label-muted text-[11px] leading-4 truncate">
+            {location()}
+          </span>
+        )}
+      </Show>
+      <span class="text-black text-[11px] leading-4 opacity-70 line-clamp-2 break-all">
+        {props.session.followUpPrompts?.at(-1) ?? props.session.context.prompt}
+      </span>
+      <button
+        class={cn(
+          "text-left text-black text-[11px] leading-4 tracking-[-0.04em] font-medium truncate bg-transparent border-none p-0",
+          statusHistory().length > 0 ? "cursor-pointer" : "cursor-default",
+        )}
+        title="Show status history"
+        onClick={() => setIsHistoryExpanded((expanded) => !expanded)}
+      >
+        {props.session.lastStatus || "Please wait…"}
+      </button>
+      <Show when={isHistoryExpanded() && statusHistory().length > 0}>
+        <ol class="m-0 pl-3 flex flex-col text-label-muted text-[11px] leading-4 max-h-[120px] overflow-y-auto list-decimal">
+          <For each={statusHistory()}>
+            {(line) => <li class="break-all line-clamp-2">{line}</li>}
+          </For>
+        </ol>
+      </Show>
+      <div class="flex items-center gap-1 pt-0.5">
+        <Show
+          when={props.session.isStreaming}
+          fallback={
+            <DashboardActionButton
+              label="Retry"
+              onClick={() => props.onRetry?.(props.session.id)}
+            />
+          }
+        >
+          <DashboardActionButton
+            label={props.session.queuePosition ? "Cancel" : "Stop"}
+            onClick={() => props.onAbort?.(props.session.id)}
+          />
+        </Show>
+        <Show when={props.session.filePath}>
+          <DashboardActionButton
+            label="Open file"
+            onClick={() => props.onOpenFile?.(props.session.id)}
+          />
+        </Show>
+        <Show when={props.session.isElementAvailable}>
+          <DashboardActionButton
+            label="Scroll to"
+            onClick={() => props.onScrollToElement?.(props.session.id)}
+          />
+        </Show>
+      </div>
+    </div>
+  );
+};
+
+export const AgentDashboard: Component<AgentDashboardProps> = (props) => {
+  const [isExpanded, setIsExpanded] = createSignal(false);
+  const [now, setNow] = createSignal(Date.now());
+
+  const clockId = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL_MS);
+  onCleanup(() => clearInterval(clockId));
+
+  // NOTE: sessions are replaced on every update, so rows are keyed by id to
+  // keep their expanded history open
+  const sessionIds = () => props.sessions.map((session) => session.id);
+  const getSession = (sessionId: string) =>
+    props.sessions.find((session) => session.id === sessionId);
+
+  const runningCount = () =>
+    props.sessions.filter((session) => session.isStreaming).length;
+
+  const stopPropagation = (event: MouseEvent) => {
+    event.stopPropagation();
+    event.stopImmediatePropagation();
+  };
+
+  return (
+    <div
+      data-react-grab-ignore-events
+      class="fixed font-sans antialiased flex flex-col gap-1 rounded-xs bg-white max-h-[60vh] p-1.5 filter-[drop-shadow(0px_0px_4px_#51515180)]"
+      classList={{ "w-[320px]": isExpanded() }}
+      style={{
+        left: `${VIEWPORT_MARGIN_PX}px`,
+        bottom: `${VIEWPORT_MARGIN_PX}px`,
+        "z-index": String(Z_INDEX_LABEL),
+        "pointer-events": "auto",
+      }}
+      onMouseDown={stopPropagation}
+      onClick={stopPropagation}
+    >
+      <button
+        class="flex items-center justify-between gap-2 bg-transparent border-none p-0 cursor-pointer"
+        title={isExpanded() ? "Collapse agent sessions" : "Show agent sessions"}
+        onClick={() => setIsExpanded((expanded) => !expanded)}
+      >
+        <span class="text-black text-[12px] leading-4 tracking-[-0.04em] font-medium">
+          Agents
+        </span>
+        <span class="text-label-muted text-[11px] leading-4">
+          {runningCount() > 0
+            ? `${runningCount()} running`
+            : `${props.sessions.length} recent`}
+        </span>
+      </button>
+
+      <Show when={isExpanded()}>
+        <div class="flex flex-col gap-1 overflow-y-auto min-h-0">
+          <For each={sessionIds()}>
+            {(sessionId) => (
+              <Show when={getSession(sessionId)}>
+                {(session) => (
+                  <DashboardSessionRow
+                    session={session()}
+                    now={now()}
+                    onAbort={props.onAbort}
+                    onRetry={props.onRetry}
+                    onOpenFile={props.onOpenFile}
+                    onScrollToElement={props.onScrollToElement}
+                  />
+                )}
+              </Show>
+            )}
+          </For>
+        </div>
+      </Show>
+    </div>
+  );
+};
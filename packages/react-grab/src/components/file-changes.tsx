@@ -0,0 +1,94 @@
+import { Show, For, createSignal } from "solid-js";
+import type { Component } from "solid-js";
+import type { AgentFileChange } from "../types.js";
+import { cn } from "../utils/cn.js";
+
+interface FileChangesProps {
+  files: AgentFileChange[];
+  onUndo?: () => void;
+}
+
+interface FileChangeRowProps {
+  file: AgentFileChange;
+}
+
+const FILE_STATUS_LABELS: Record<AgentFileChange["status"], string> = {
+  added: "A",
+  modified: "M",
+  deleted: "D",
+};
+
+const countDiffLines = (diff: string) => {
+  let additions = 0;
+  let deletions = 0;
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+++") || line.startsWith("---")) continue;
+    if (line.startsWith("+")) additions++;
+    else if (line.startsWith("-")) deletions++;
+  }
+  return { additions, deletions };
+};
+
+const getDiffLineClass = (line: string): string => {
+  if (line.startsWith("+++") || line.startsWith("---")) return "text-[#8C8C8C]";
+  if (line.startsWith("+")) return "bg-[#E6FFEC] text-[#116329]";
+  if (line.startsWith("-")) return "bg-[#FFEBE9] text-[#A40E26]";
+  if (line.startsWith("@@")) return "text-[#8C8C8C]";
+  return "text-black";
+};
+
+const FileChangeRow: Component<FileChangeRowProps> = (props) => {
+  const [isExpanded, setIsExpanded] = createSignal(false);
+  const lineCounts = () => countDiffLines(props.file.diff);
+
+  return (
+    <div class="flex flex-col w-full min-w-0">
+      <button
+        class="flex items-center gap-1 w-full min-w-0 text-left text-[11px] leading-4 tracking-[-0.04em] font-medium text-black cursor-pointer hover:bg-[#F5F5F5] rounded-[1.5px] px-0.5"
+        onClick={() => setIsExpanded((expanded) => !expanded)}
+      >
+        <span class="shrink-0 w-2.5 text-[#8C8C8C]">
+          {FILE_STATUS_LABELS[props.file.status]}
+        </span>
+        <span class="flex-1 min-w-0 truncate [direction:rtl] text-left">
+          {props.file.path}
+        </span>
+        <span class="shrink-0 text-[#116329]">+{lineCounts().additions}</span>
+        <span class="shrink-0 text-[#A40E26]">-{lineCounts().deletions}</span>
+      </button>
+      <Show when={isExpanded()}>
+        <pre class="m-0 mt-0.5 max-h-[160px] overflow-auto rounded-[1.5px] [border-width:0.5px] border-solid border-[#D9D9D9] bg-white font-mono text-[10px] leading-[14px]">
+          <For each={props.file.diff.split("\n")}>
+            {(line) => (
+              <div class={cn("px-1 whitespace-pre", getDiffLineClass(line))}>
+                {line || " "}
+              </div>
+            )}
+          </For>
+        </pre>
+      </Show>
+    </div>
+  );
+};
+
+export const FileChanges: Component<FileChangesProps> = (props) => (
+  <div class="flex flex-col gap-0.5 px-1.5 w-full min-w-0">
+    <div class="flex items-center justify-between gap-2 w-full">
+      <span class="text-[11px] leading-4 tracking-[-0.04em] font-medium text-[#8C8C8C]">
+        {props.files.length === 1
+          ? "1 file changed"
+          : `${props.files.length} files changed`}
+      </span>
+      <Show when={props.onUndo}>
+        <button
+          class="contain-layout shrink-0 flex items-center rounded-xs bg-white [border-width:0.5px] border-solid border-[#B3B3B3] px-1 py-px text-[11px] leading-4 tracking-[-0.04em] font-medium text-black cursor-pointer hover:scale-105"
+          title="Revert every file this session changed"
+          onClick={() => props.onUndo?.()}
+        >
+          Undo
+        </button>
+      </Show>
+    </div>
+    <For each={props.files}>{(file) => <FileChangeRow file={file} />}</For>
+  </div>
+);
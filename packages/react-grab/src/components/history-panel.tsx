@@ -0,0 +1,154 @@
+import { Show, For } from "solid-js";
+import type { Component } from "solid-js";
+import type { GrabHistoryItem } from "../types.js";
+import { VIEWPORT_MARGIN_PX, Z_INDEX_LABEL } from "../constants.js";
+import { cn } from "../utils/cn.js";
+
+interface HistoryPanelProps {
+  items: Array<GrabHistoryItem & { isElementAvailable: boolean }>;
+  hasAgent?: boolean;
+  onCopy?: (itemId: string) => void;
+  onHighlight?: (itemId: string) => void;
+  onSend?: (itemId: string) => void;
+  onClear?: () => void;
+  onClose?: () => void;
+}
+
+interface HistoryActionButtonProps {
+  label: string;
+  disabled?: boolean;
+  onClick?: () => void;
+}
+
+const formatRelativeTime = (timestamp: number): string => {
+  const elapsedSeconds = Math.max(
+    0,
+    Math.round((Date.now() - timestamp) / 1000),
+  );
+  if (elapsedSeconds < 60) return "just now";
+  const elapsedMinutes = Math.round(elapsedSeconds / 60);
+  if (elapsedMinutes < 60) return `${elapsedMinutes}m ago`;
+  const elapsedHours = Math.round(elapsedMinutes / 60);
+  if (elapsedHours < 24) return `${elapsedHours}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const formatItemTitle = (item: GrabHistoryItem): string => {
+  const tag = `<${item.tagName}>`;
+  const title = item.componentName ? `${tag} in ${item.componentName}` : tag;
+  return item.elementCount > 1
+    ? `${title} +${item.elementCount - 1} more`
+    : title;
+};
+
+const formatItemLocation = (item: GrabHistoryItem): string | null => {
+  if (!item.fileName) return null;
+  return item.lineNumber !== null
+    ? `${item.fileName}:${item.lineNumber}`
+    : item.fileName;
+};
+
+const HistoryActionButton: Component<HistoryActionButtonProps> = (props) => (
+  <button
+    class={cn(
+      "contain-layout shrink-0 flex items-center rounded-xs bg-white [border-width:0.5px] border-solid border-[#B3B3B3] px-1 py-px text-[11px] leading-4 tracking-[-0.04em] font-medium text-black",
+      props.disabled
+        ? "opacity-40 cursor-default"
+        : "cursor-pointer hover:scale-105",
+    )}
+    disabled={props.disabled}
+    onClick={() => props.onClick?.()}
+  >
+    {props.label}
+  </button>
+);
+
+export const HistoryPanel: Component<HistoryPanelProps> = (props) => {
+  const stopPropagation = (event: MouseEvent) => {
+    event.stopPropagation();
+    event.stopImmediatePropagation();
+  };
+
+  return (
+    <div
+      data-react-grab-ignore-events
+      class="fixed font-sans antialiased flex flex-col gap-1 rounded-xs bg-white w-[320px] max-h-[60vh] p-1.5 filter-[drop-shadow(0px_0px_4px_#51515180)]"
+      style={{
+        right: `${VIEWPORT_MARGIN_PX}px`,
+        bottom: `${VIEWPORT_MARGIN_PX}px`,
+        "z-index": String(Z_INDEX_LABEL),
+        "pointer-events": "auto",
+      }}
+      onMouseDown={stopPropagation}
+      onClick={stopPropagation}
+    >
+      <div class="flex items-center justify-between gap-1">
+        <span class="text-black text-[12px] leading-4 tracking-[-0.04em] font-medium">
+          History
+        </span>
+        <div class="flex items-center gap-1">
+          <Show when={props.items.length > 0}>
+            <HistoryActionButton label="Clear" onClick={props.onClear} />
+          </Show>
+          <HistoryActionButton label="Close" onClick={props.onClose} />
+        </div>
+      </div>
+
+      <Show
+        when={props.items.length > 0}
+        fallback={
+          <span class="text-label-muted text-[12px] leading-4 tracking-[-0.04em] font-medium">
+            No grabs yet
+          </span>
+        }
+      >
+        <div class="flex flex-col gap-1 overflow-y-auto min-h-0">
+          <For each={props.items}>
+            {(item) => (
+              <div class="flex flex-col gap-0.5 border-t-[0.5px] border-solid border-[#B3B3B3] pt-1">
+                <div class="flex items-center justify-between gap-1">
+                  <span class="font-mono text-black text-[12px] leading-4 tracking-[-0.04em] font-medium truncate">
+                    {formatItemTitle(item)}
+                  </span>
+                  <span class="text-label-muted text-[11px] leading-4 shrink-0">
+                    {formatRelativeTime(item.createdAt)}
+                  </span>
+                </div>
+                <Show when={formatItemLocation(item)}>
+                  {(location) => (
+                    <span class="text-label-muted text-[11px] leading-4 truncate">
+                      {location()}
+                    </span>
+                  )}
+                </Show>
+                <Show when={item.prompt}>
+                  <span class="text-black text-[11px] leading-4 opacity-70 line-clamp-2 break-all">
+                    {item.prompt}
+                  </span>
+                </Show>
+                <div class="flex items-center gap-1 pt-0.5">
+                  <HistoryActionButton
+                    label="Copy"
+                    onClick={() => props.onCopy?.(item.id)}
+                  />
+                  <HistoryActionButton
+                    label="Highlight"
+                    disabled={!item.isElementAvailable}
+                    onClick={() => props.onHighlight?.(item.id)}
+                  />
+                  <Show when={props.hasAgent}>
+                    <HistoryActionButton
+                      label="Send"
+                      disabled={!item.isElementAvailable}
+                      onClick={() => props.onSend?.(item.id)}
+                    />
+                  </Show>
+                </div>
+              </div>
+            )}
+          </For>
+        </div>
+      </Show>
+    </div>
+  );
+};
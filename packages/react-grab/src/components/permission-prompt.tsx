@@ -0,0 +1,56 @@
+import { For, Show } from "solid-js";
+import type { Component } from "solid-js";
+import type {
+  AgentPermissionDecision,
+  AgentPermissionRequest,
+} from "../types.js";
+
+interface PermissionPromptProps {
+  request: AgentPermissionRequest;
+  onRespond: (decision: AgentPermissionDecision) => void;
+}
+
+const DECISION_BUTTONS: Array<{
+  decision: AgentPermissionDecision;
+  label: string;
+  title: string;
+}> = [
+  { decision: "deny", label: "Deny", title: "Block this tool call" },
+  {
+    decision: "always-allow",
+    label: "Always allow",
+    title: "Allow this tool for the rest of the session",
+  },
+  { decision: "allow", label: "Allow", title: "Allow this tool call once" },
+];
+
+export const PermissionPrompt: Component<PermissionPromptProps> = (props) => {
+  const detail = () => props.request.command ?? props.request.filePath;
+
+  return (
+    <div class="flex flex-col gap-1 px-1.5 w-full min-w-0">
+      <Show when={detail()}>
+        <pre class="m-0 px-1 py-0.5 rounded-xs bg-[#F5F5F5] text-[10px] leading-[14px] font-mono text-black whitespace-pre-wrap break-all max-h-[80px] overflow-auto">
+          {detail()}
+        </pre>
+      </Show>
+      <div class="flex items-center justify-end gap-1 w-full">
+        <For each={DECISION_BUTTONS}>
+          {(button) => (
+            <button
+              class="contain-layout shrink-0 flex items-center rounded-xs [border-width:0.5px] border-solid border-[#B3B3B3] px-1 py-px text-[11px] leading-4 tracking-[-0.04em] font-medium cursor-pointer hover:scale-105"
+              classList={{
+                "bg-black text-white": button.decision === "allow",
+                "bg-white text-black": button.decision !== "allow",
+              }}
+              title={button.title}
+              onClick={() => props.onRespond(button.decision)}
+            >
+              {button.label}
+            </button>
+          )}
+        </For>
+      </div>
+    </div>
+  );
+};
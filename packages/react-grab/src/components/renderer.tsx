@@ -1,11 +1,12 @@
 import { Show, For } from "solid-js";
 import type { Component } from "solid-js";
 import type { ReactGrabRendererProps } from "../types.js";
-import { buildOpenFileUrl } from "../utils/build-open-file-url.js";
 import { SelectionBox } from "./selection-box.js";
 import { Crosshair } from "./crosshair.js";
 import { SelectionCursor } from "./selection-cursor.js";
 import { SelectionLabel } from "./selection-label.js";
+import { HistoryPanel } from "./history-panel.js";
+import { AgentDashboard } from "./agent-dashboard.js";
 
 export const ReactGrabRenderer: Component<ReactGrabRendererProps> = (props) => {
   return (
@@ -51,6 +52,16 @@ export const ReactGrabRenderer: Component<ReactGrabRendererProps> = (props) => {
         )}
       </For>
 
+      <For each={props.collectedBoxes ?? []}>
+        {(box) => (
+          <SelectionBox
+            variant="collected"
+            bounds={box.bounds}
+            label={String(box.index)}
+          />
+        )}
+      </For>
+
       <For
         each={
           props.agentSessions ? Array.from(props.agentSessions.values()) : []
@@ -75,8 +86,34 @@ export const ReactGrabRenderer: Component<ReactGrabRendererProps> = (props) => {
               hasAgent={true}
               status={session.isStreaming ? "copying" : "copied"}
               statusText={session.lastStatus || "Please wait…"}
-              inputValue={session.context.prompt}
+              inputValue={
+                session.followUpPrompts?.at(-1) ?? session.context.prompt
+              }
               onAbort={() => props.onAbortSession?.(session.id)}
+              onFollowUp={
+                props.onFollowUpSession
+                  ? (prompt) => props.onFollowUpSession?.(session.id, prompt)
+                  : undefined
+              }
+              onDismiss={() => props.onDismissSession?.(session.id)}
+              fileChanges={session.fileChanges}
+              onUndo={
+                props.onUndoSession
+                  ? () => props.onUndoSession?.(session.id)
+                  : undefined
+              }
+              pendingPermission={session.pendingPermission}
+              onRespondToPermission={
+                props.onRespondToPermission
+                  ? (decision) =>
+                      props.onRespondToPermission?.(session.id, decision)
+                  : undefined
+              }
+              onMoveUp={
+                props.onMoveQueuedSession && (session.queuePosition ?? 0) > 1
+                  ? () => props.onMoveQueuedSession?.(session.id, -1)
+                  : undefined
+              }
             />
           </>
         )}
@@ -99,12 +136,7 @@ export const ReactGrabRenderer: Component<ReactGrabRendererProps> = (props) => {
           onSubmit={props.onInputSubmit}
           onCancel={props.onInputCancel}
           onToggleExpand={props.onToggleExpand}
-          onOpen={() => {
-            if (props.selectionFilePath) {
-              const openFileUrl = buildOpenFileUrl(props.selectionFilePath, props.selectionLineNumber);
-              window.open(openFileUrl, "_blank");
-            }
-          }}
+          onOpen={props.onSelectionOpen}
         />
       </Show>
 
@@ -139,6 +171,28 @@ export const ReactGrabRenderer: Component<ReactGrabRendererProps> = (props) => {
           onEnter={props.onNativeSelectionEnter}
         />
       </Show>
+
+      <Show when={props.historyVisible}>
+        <HistoryPanel
+          items={props.historyItems ?? []}
+          hasAgent={props.hasAgent}
+          onCopy={props.onHistoryCopy}
+          onHighlight={props.onHistoryHighlight}
+          onSend={props.onHistorySend}
+          onClear={props.onHistoryClear}
+          onClose={props.onHistoryClose}
+        />
+      </Show>
+
+      <Show when={props.agentDashboardSessions?.length}>
+        <AgentDashboard
+          sessions={props.agentDashboardSessions ?? []}
+          onAbort={props.onAbortSession}
+          onRetry={props.onDashboardRetry}
+          onOpenFile={props.onDashboardOpenFile}
+          onScrollToElement={props.onDashboardScrollToElement}
+        />
+      </Show>
     </>
   );
 };
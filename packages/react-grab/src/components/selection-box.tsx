@@ -6,13 +6,14 @@ import { lerp } from "../utils/lerp.js";
 import { cn } from "../utils/cn.js";
 
 interface SelectionBoxProps {
-  variant: "selection" | "grabbed" | "drag" | "processing";
+  variant: "selection" | "grabbed" | "drag" | "processing" | "collected";
   bounds: OverlayBounds;
   visible?: boolean;
   lerpFactor?: number;
   createdAt?: number;
   isFading?: boolean;
   isCompleted?: boolean;
+  label?: string;
 }
 
 export const SelectionBox: Component<SelectionBoxProps> = (props) => {
@@ -121,8 +122,11 @@ export const SelectionBox: Component<SelectionBoxProps> = (props) => {
           "fixed box-border",
           props.variant === "drag" && "pointer-events-none",
           props.variant !== "drag" && "pointer-events-auto",
-          props.variant === "grabbed" && "z-2147483645",
-          props.variant !== "grabbed" && "z-2147483646",
+          (props.variant === "grabbed" || props.variant === "collected") &&
+            "z-2147483645",
+          props.variant !== "grabbed" &&
+            props.variant !== "collected" &&
+            "z-2147483646",
           props.variant === "drag" &&
             "border border-solid border-grab-purple/40 bg-grab-purple/5 will-change-[transform,width,height] cursor-crosshair",
           props.variant === "selection" &&
@@ -133,6 +137,8 @@ export const SelectionBox: Component<SelectionBoxProps> = (props) => {
             "border border-solid border-grab-purple/50 bg-grab-purple/8",
           props.variant === "processing" && props.isCompleted &&
             "border border-solid react-grab-flash",
+          props.variant === "collected" &&
+            "border-2 border-solid border-grab-purple bg-grab-purple/8",
         )}
         style={{
           top: `${currentY()}px`,
@@ -145,7 +151,13 @@ export const SelectionBox: Component<SelectionBoxProps> = (props) => {
           contain: props.variant === "drag" ? "layout paint size" : undefined,
           overflow: "visible",
         }}
-      />
+      >
+        <Show when={props.label}>
+          <span class="absolute -top-2 -left-2 flex items-center justify-center min-w-4 h-4 px-1 rounded-full bg-grab-purple text-white text-[10px] leading-none font-sans font-medium tabular-nums">
+            {props.label}
+          </span>
+        </Show>
+      </div>
     </Show>
   );
 };
@@ -7,12 +7,20 @@ import {
   type JSX,
 } from "solid-js";
 import type { Component } from "solid-js";
-import type { OverlayBounds, SelectionLabelStatus } from "../types.js";
+import type {
+  AgentFileChange,
+  AgentPermissionDecision,
+  AgentPermissionRequest,
+  OverlayBounds,
+  SelectionLabelStatus,
+} from "../types.js";
 import { VIEWPORT_MARGIN_PX } from "../constants.js";
 import { cn } from "../utils/cn.js";
 import { useSpeechRecognition } from "../utils/speech-recognition.js";
 import { IconOpen } from "./icon-open.js";
 import { IconMic } from "./icon-mic.js";
+import { FileChanges } from "./file-changes.js";
+import { PermissionPrompt } from "./permission-prompt.js";
 
 interface SelectionLabelProps {
   tagName?: string;
@@ -33,6 +41,13 @@ interface SelectionLabelProps {
   onToggleExpand?: () => void;
   onAbort?: () => void;
   onOpen?: () => void;
+  onFollowUp?: (prompt: string) => void;
+  onDismiss?: () => void;
+  fileChanges?: AgentFileChange[];
+  onUndo?: () => void;
+  pendingPermission?: AgentPermissionRequest;
+  onRespondToPermission?: (decision: AgentPermissionDecision) => void;
+  onMoveUp?: () => void;
 }
 
 interface TagBadgeProps {
@@ -210,6 +225,7 @@ export const SelectionLabel: Component<SelectionLabelProps> = (props) => {
     createSignal<ArrowPosition>("bottom");
   const [viewportVersion, setViewportVersion] = createSignal(0);
   const [isIdle, setIsIdle] = createSignal(false);
+  const [followUpValue, setFollowUpValue] = createSignal("");
 
   const speechRecognition = useSpeechRecognition({
     onTranscript: (transcript) => props.onInputChange?.(transcript),
@@ -372,6 +388,25 @@ export const SelectionLabel: Component<SelectionLabelProps> = (props) => {
     }
   };
 
+  const handleFollowUpSubmit = () => {
+    const prompt = followUpValue().trim();
+    if (!prompt) return;
+    setFollowUpValue("");
+    props.onFollowUp?.(prompt);
+  };
+
+  const handleFollowUpKeyDown = (event: KeyboardEvent) => {
+    event.stopPropagation();
+
+    if (event.code === "Enter" && !event.shiftKey) {
+      event.preventDefault();
+      handleFollowUpSubmit();
+    } else if (event.code === "Escape") {
+      event.preventDefault();
+      props.onDismiss?.();
+    }
+  };
+
   const handleInput = (event: InputEvent) => {
     const target = event.target as HTMLTextAreaElement;
     props.onInputChange?.(target.value);
@@ -420,7 +455,64 @@ export const SelectionLabel: Component<SelectionLabelProps> = (props) => {
           leftPx={computedPosition().arrowLeft}
         />
 
-        <Show when={props.status === "copied" || props.status === "fading"}>
+        <Show when={props.status === "copied" && props.onFollowUp}>
+          <div class="[font-synthesis:none] contain-layout shrink-0 flex flex-col justify-center items-start gap-1 rounded-xs bg-white antialiased w-fit h-fit max-w-[280px]">
+            <div class="contain-layout shrink-0 flex items-center justify-between gap-2 pt-1 px-1.5 w-full h-fit">
+              <div class="text-black text-[12px] leading-4 tracking-[-0.04em] font-sans font-medium w-auto h-fit whitespace-normal">
+                {props.statusText ?? "Completed"}
+              </div>
+              <Show when={props.onDismiss}>
+                <button
+                  class="contain-layout shrink-0 flex items-center rounded-xs bg-white [border-width:0.5px] border-solid border-[#B3B3B3] px-1 py-px text-[11px] leading-4 tracking-[-0.04em] font-medium text-black cursor-pointer hover:scale-105"
+                  onClick={() => props.onDismiss?.()}
+                >
+                  Done
+                </button>
+              </Show>
+            </div>
+            <Show when={props.fileChanges?.length}>
+              <FileChanges files={props.fileChanges!} onUndo={props.onUndo} />
+            </Show>
+            <BottomSection>
+              <div class="shrink-0 flex justify-between items-end w-full min-h-4">
+                <textarea
+                  class="text-black text-[12px] leading-4 tracking-[-0.04em] font-medium bg-transparent border-none outline-none resize-none flex-1 p-0 m-0 break-all"
+                  style={{
+                    // @ts-expect-error - field-sizing is not in the jsx spec
+                    "field-sizing": "content",
+                    "min-height": "16px",
+                  }}
+                  value={followUpValue()}
+                  onInput={(event) =>
+                    setFollowUpValue(event.currentTarget.value)
+                  }
+                  onKeyDown={handleFollowUpKeyDown}
+                  placeholder="follow up"
+                  rows={1}
+                />
+                <button
+                  class="contain-layout shrink-0 flex flex-col items-start px-[3px] py-[3px] ml-1 rounded-xs bg-white [border-width:0.5px] border-solid border-[#B3B3B3] size-fit cursor-pointer transition-none hover:scale-105"
+                  onClick={handleFollowUpSubmit}
+                >
+                  <div
+                    class={cn(
+                      "w-2.5 h-[9px] shrink-0 bg-cover bg-center transition-opacity duration-100",
+                      followUpValue() ? "opacity-[0.99]" : "opacity-50",
+                    )}
+                    style={{ "background-image": `url(${RETURN_KEY_ICON_URL})` }}
+                  />
+                </button>
+              </div>
+            </BottomSection>
+          </div>
+        </Show>
+
+        <Show
+          when={
+            (props.status === "copied" && !props.onFollowUp) ||
+            props.status === "fading"
+          }
+        >
           <div class="[font-synthesis:none] contain-layout shrink-0 flex items-center gap-1 rounded-xs bg-white antialiased w-fit h-fit py-1 px-1.5">
             <div class="contain-layout shrink-0 flex items-center px-0 py-px w-fit h-[18px] rounded-[1.5px] gap-[3px]">
               <div class="text-black text-[12px] leading-4 shrink-0 tracking-[-0.04em] font-sans font-medium w-fit h-fit">
@@ -445,6 +537,27 @@ export const SelectionLabel: Component<SelectionLabelProps> = (props) => {
                   </div>
                 </div>
               </div>
+              <Show
+                when={props.pendingPermission && props.onRespondToPermission}
+              >
+                <PermissionPrompt
+                  request={props.pendingPermission!}
+                  onRespond={(decision) =>
+                    props.onRespondToPermission?.(decision)
+                  }
+                />
+              </Show>
+              <Show when={props.onMoveUp}>
+                <div class="flex justify-end px-1.5 w-full">
+                  <button
+                    class="contain-layout shrink-0 flex items-center rounded-xs bg-white [border-width:0.5px] border-solid border-[#B3B3B3] px-1 py-px text-[11px] leading-4 tracking-[-0.04em] font-medium text-black cursor-pointer hover:scale-105"
+                    title="Run this session earlier"
+                    onClick={() => props.onMoveUp?.()}
+                  >
+                    Move up
+                  </button>
+                </div>
+              </Show>
               <BottomSection>
                 <div class="shrink-0 flex justify-between items-end w-full min-h-4">
                   <textarea
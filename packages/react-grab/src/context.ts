@@ -5,6 +5,7 @@ import {
   FiberSource,
 } from "bippy/source";
 import { isCapitalized } from "./utils/is-capitalized.js";
+import { isBundleUrlSource, resolveSource } from "./utils/resolve-source.js";
 import {
   getFiberFromHostInstance,
   isInstrumentationActive,
@@ -13,8 +14,30 @@ import {
   isHostFiber,
   isCompositeFiber,
   getDisplayName,
+  getNearestHostFibers,
   traverseFiber,
+  traverseState,
+  traverseContexts,
+  ClassComponentTag,
+  type Fiber,
 } from "bippy";
+import type {
+  ComponentInstance,
+  ComponentStateContextValue,
+  ComponentStateOptions,
+  ComponentStateSnapshot,
+  ElementChildSummary,
+  ElementInfo,
+  ElementSnippetFrame,
+  ElementSnippetRecord,
+  ElementStackFrame,
+} from "./types.js";
+import { formatElementSnippetAsText } from "./utils/snippet-formatters.js";
+import { getStyleContext } from "./utils/get-style-context.js";
+import { isValidGrabbableElement } from "./utils/is-valid-grabbable-element.js";
+import { serializeValue } from "./utils/serialize-value.js";
+
+const SERVER_SOURCE_PREFIX = "about://React/Server";
 
 const NEXT_INTERNAL_COMPONENT_NAMES = new Set([
   "InnerLayoutRouter",
@@ -66,6 +89,51 @@ export const checkIsSourceComponentName = (name: string): boolean => {
   return true;
 };
 
+export const checkIsSourceComponentFiber = (fiber: Fiber): boolean => {
+  if (!isCompositeFiber(fiber)) return false;
+  const name = getDisplayName(fiber.type);
+  return Boolean(name && checkIsSourceComponentName(name));
+};
+
+// NOTE: a component can render several DOM roots (fragments, portals), so
+// every nearest host fiber is collected in document order
+export const getComponentElements = (componentFiber: Fiber): Element[] => {
+  const hostElements = getNearestHostFibers(componentFiber)
+    .map((hostFiber) => hostFiber.stateNode as unknown)
+    .filter((stateNode): stateNode is Element => stateNode instanceof Element)
+    .sort((elementA, elementB) =>
+      elementA.compareDocumentPosition(elementB) &
+      Node.DOCUMENT_POSITION_FOLLOWING
+        ? -1
+        : 1,
+    );
+  const grabbableElements = hostElements.filter(isValidGrabbableElement);
+  return grabbableElements.length > 0 ? grabbableElements : hostElements;
+};
+
+export const getComponentInstance = (
+  element: Element,
+): ComponentInstance | null => {
+  try {
+    const fiber = getFiberFromHostInstance(element);
+    if (!fiber) return null;
+
+    const componentFiber = traverseFiber(
+      fiber,
+      checkIsSourceComponentFiber,
+      true,
+    );
+    if (!componentFiber) return null;
+
+    return {
+      name: getDisplayName(componentFiber.type) ?? "Anonymous",
+      elements: getComponentElements(componentFiber),
+    };
+  } catch {
+    return null;
+  }
+};
+
 interface StackFrame {
   name: string;
   source: FiberSource | null;
@@ -108,10 +176,13 @@ export const getStack = async (
     );
 
     const resolvedStack = await Promise.all(
-      unresolvedStack.map(async (frame) => ({
-        name: frame.name,
-        source: await frame.sourcePromise,
-      })),
+      unresolvedStack.map(async (frame) => {
+        const source = await frame.sourcePromise;
+        return {
+          name: frame.name,
+          source: source ? await resolveSource(source) : null,
+        };
+      }),
     );
 
     return resolvedStack.filter((frame) => frame.source !== null);
@@ -136,69 +207,239 @@ export const getNearestComponentName = async (
   return null;
 };
 
-interface GetElementContextOptions {
-  maxLines?: number;
-}
+const DEFAULT_COMPONENT_STATE_OPTIONS: Required<ComponentStateOptions> = {
+  maxComponents: 3,
+  maxDepth: 3,
+  maxBytes: 4096,
+};
 
-const formatFileName = (fileName: string): string => {
-  const normalized = normalizeFileName(fileName);
+const getSerializedByteLength = (value: unknown): number =>
+  new TextEncoder().encode(JSON.stringify(value)).length;
 
-  // For Vite projects, try to create a dev server URL format
-  if (typeof window !== 'undefined' && window.location.port) {
-    // Extract src path if it exists
-    const srcMatch = normalized.match(/\/src\/.+$/);
-    if (srcMatch) {
-      return `//${window.location.host}${srcMatch[0]}`;
-    }
+const hasStateQueue = (hook: unknown): boolean => {
+  if (!hook || typeof hook !== "object" || !("queue" in hook)) return false;
+  const queue = hook.queue;
+  return Boolean(queue && typeof queue === "object" && "dispatch" in queue);
+};
+
+const getFiberState = (fiber: Fiber): unknown[] => {
+  if (fiber.tag === ClassComponentTag) {
+    return fiber.memoizedState ? [fiber.memoizedState] : [];
   }
 
-  return normalized;
+  const state: unknown[] = [];
+  traverseState(fiber, (hook) => {
+    if (hook && hasStateQueue(hook)) {
+      state.push(hook.memoizedState);
+    }
+  });
+  return state;
 };
 
-export const getElementContext = async (
+const getFiberContexts = (fiber: Fiber): ComponentStateContextValue[] => {
+  const contexts: ComponentStateContextValue[] = [];
+  traverseContexts(fiber, (dependency) => {
+    if (!dependency) return;
+    contexts.push({
+      name: dependency.context.displayName ?? "Context",
+      value: dependency.memoizedValue,
+    });
+  });
+  return contexts;
+};
+
+const serializeComponentState = (
+  fiber: Fiber,
+  name: string,
+  maxDepth: number,
+): ComponentStateSnapshot => {
+  const props: Record<string, unknown> = { ...fiber.memoizedProps };
+  delete props.children;
+
+  return {
+    name,
+    props: serializeValue(props, maxDepth),
+    state: getFiberState(fiber).map((value) => serializeValue(value, maxDepth)),
+    context: getFiberContexts(fiber).map((context) => ({
+      name: context.name,
+      value: serializeValue(context.value, maxDepth),
+    })),
+  };
+};
+
+export const getComponentState = (
+  element: Element,
+  options: ComponentStateOptions = {},
+): ComponentStateSnapshot[] => {
+  if (!isInstrumentationActive()) return [];
+
+  const { maxComponents, maxDepth, maxBytes } = {
+    ...DEFAULT_COMPONENT_STATE_OPTIONS,
+    ...options,
+  };
+
+  try {
+    const maybeFiber = getFiberFromHostInstance(element);
+    if (!maybeFiber || !isFiber(maybeFiber)) return [];
+    const fiber = getLatestFiber(maybeFiber);
+
+    const componentFibers: Array<{ fiber: Fiber; name: string }> = [];
+    traverseFiber(
+      fiber,
+      (currentFiber) => {
+        if (!isCompositeFiber(currentFiber)) return false;
+        const name = getDisplayName(currentFiber.type);
+        if (name && checkIsSourceComponentName(name)) {
+          componentFibers.push({ fiber: currentFiber, name });
+        }
+        return componentFibers.length >= maxComponents;
+      },
+      true,
+    );
+
+    const snapshots: ComponentStateSnapshot[] = [];
+    let remainingBytes = maxBytes;
+
+    for (const { fiber: componentFiber, name } of componentFibers) {
+      let depth = maxDepth;
+      let snapshot = serializeComponentState(componentFiber, name, depth);
+      let byteLength = getSerializedByteLength(snapshot);
+
+      while (byteLength > remainingBytes && depth > 0) {
+        depth--;
+        snapshot = serializeComponentState(componentFiber, name, depth);
+        byteLength = getSerializedByteLength(snapshot);
+      }
+
+      if (byteLength > remainingBytes) break;
+
+      snapshots.push(snapshot);
+      remainingBytes -= byteLength;
+    }
+
+    return snapshots;
+  } catch {
+    return [];
+  }
+};
+
+interface GetElementContextOptions {
+  maxLines?: number;
+  styleContext?: boolean;
+  componentState?: boolean | ComponentStateOptions;
+}
+
+export const getElementSnippetRecord = async (
   element: Element,
   options: GetElementContextOptions = {},
-): Promise<string> => {
+): Promise<ElementSnippetRecord> => {
   const { maxLines = 10 } = options;
-  const html = getHTMLPreview(element);
+  const htmlPreview = getHTMLPreview(element);
   const stack = await getStack(element);
   const isNextProject = checkIsNextProject();
 
-  const stackContext: string[] = [];
+  const frames: ElementSnippetFrame[] = [];
   if (stack) {
     for (const frame of stack) {
-      if (stackContext.length >= maxLines) break;
+      if (frames.length >= maxLines) break;
+
+      const snippetFrame: ElementSnippetFrame = {
+        name: frame.name,
+        fileName: null,
+        lineNumber: null,
+        columnNumber: null,
+        isServer: false,
+      };
 
       if (!frame.source) {
-        stackContext.push(`\n  at ${frame.name}`);
+        frames.push(snippetFrame);
         continue;
       }
 
-      if (frame.source.fileName.startsWith("about://React/Server")) {
-        stackContext.push(`\n  at ${frame.name} (Server)`);
+      if (frame.source.fileName.startsWith(SERVER_SOURCE_PREFIX)) {
+        frames.push({ ...snippetFrame, isServer: true });
         continue;
       }
 
       if (!isSourceFile(frame.source.fileName)) {
-        stackContext.push(`\n  at ${frame.name}`);
+        frames.push(snippetFrame);
         continue;
       }
 
-      const formattedFileName = formatFileName(frame.source.fileName);
-      const framePart = `\n  at ${frame.name} in ${formattedFileName}`;
+      snippetFrame.fileName = normalizeFileName(frame.source.fileName);
 
-      if (isNextProject) {
-        stackContext.push(
-          `${framePart}:${frame.source.lineNumber}:${frame.source.columnNumber}`,
-        );
-      } else {
-        // bundlers like vite mess up the line number and column number
-        stackContext.push(framePart);
+      // NOTE: positions still pointing into a served bundle (no source map
+      // found) are transformed output and would mislead outside of Next.js
+      if (isNextProject || !isBundleUrlSource(frame.source)) {
+        snippetFrame.lineNumber = frame.source.lineNumber ?? null;
+        snippetFrame.columnNumber = frame.source.columnNumber ?? null;
       }
+
+      frames.push(snippetFrame);
     }
   }
 
-  return `${html}${stackContext.join("")}`;
+  const sourceFrame = frames.find((frame) => frame.fileName !== null);
+  const componentName =
+    stack?.find((frame) => checkIsSourceComponentName(frame.name))?.name ??
+    null;
+
+  const record: ElementSnippetRecord = {
+    tagName: element.tagName.toLowerCase(),
+    htmlPreview,
+    componentName,
+    fileName: sourceFrame?.fileName ?? null,
+    lineNumber: sourceFrame?.lineNumber ?? null,
+    columnNumber: sourceFrame?.columnNumber ?? null,
+    stack: frames,
+  };
+
+  if (options.styleContext) {
+    record.styleContext = getStyleContext(element);
+  }
+
+  if (options.componentState) {
+    record.componentState = getComponentState(
+      element,
+      options.componentState === true ? {} : options.componentState,
+    );
+  }
+
+  return record;
+};
+
+export const getComponentSnippetRecord = async (
+  component: ComponentInstance,
+  options: GetElementContextOptions = {},
+): Promise<ElementSnippetRecord> => {
+  const record = await getElementSnippetRecord(component.elements[0], options);
+
+  const componentFrameIndex = record.stack.findIndex(
+    (frame) => frame.name === component.name,
+  );
+  const stack =
+    componentFrameIndex > 0
+      ? record.stack.slice(componentFrameIndex)
+      : record.stack;
+  const sourceFrame = stack.find((frame) => frame.fileName !== null);
+
+  return {
+    ...record,
+    htmlPreview: component.elements.map(getHTMLPreview).join("\n"),
+    componentName: component.name,
+    fileName: sourceFrame?.fileName ?? null,
+    lineNumber: sourceFrame?.lineNumber ?? null,
+    columnNumber: sourceFrame?.columnNumber ?? null,
+    stack,
+  };
+};
+
+export const getElementContext = async (
+  element: Element,
+  options: GetElementContextOptions = {},
+): Promise<string> => {
+  const record = await getElementSnippetRecord(element, options);
+  return formatElementSnippetAsText(record);
 };
 
 export const getFileName = (stack: Array<StackFrame>): string | null => {
@@ -274,3 +515,79 @@ export const getHTMLPreview = (element: Element): string => {
   }
   return `<${tagName}${attrsText} />`;
 };
+
+const getElementText = (element: Element): string => {
+  if (element instanceof HTMLElement) {
+    return (element.innerText ?? element.textContent ?? "").trim();
+  }
+  return (element.textContent ?? "").trim();
+};
+
+const getElementChildSummary = (element: Element): ElementChildSummary => {
+  const tagNames: string[] = [];
+  let textNodeCount = 0;
+
+  for (const node of Array.from(element.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      if (node.textContent && node.textContent.trim().length > 0) {
+        textNodeCount++;
+      }
+      continue;
+    }
+    if (node instanceof Element) {
+      const tagName = node.tagName.toLowerCase();
+      if (!tagNames.includes(tagName)) tagNames.push(tagName);
+    }
+  }
+
+  return {
+    elementCount: element.childElementCount,
+    textNodeCount,
+    tagNames,
+  };
+};
+
+export const getElementInfo = async (
+  element: Element,
+): Promise<ElementInfo> => {
+  const stack = (await getStack(element)) ?? [];
+
+  const frames: ElementStackFrame[] = stack.map((frame) => {
+    const fileName = frame.source?.fileName ?? null;
+    const isServer = Boolean(fileName?.startsWith(SERVER_SOURCE_PREFIX));
+    const isSourceFrame = Boolean(
+      fileName && !isServer && isSourceFile(fileName),
+    );
+
+    return {
+      name: frame.name,
+      fileName:
+        fileName && isSourceFrame ? normalizeFileName(fileName) : fileName,
+      lineNumber: frame.source?.lineNumber ?? null,
+      columnNumber: frame.source?.columnNumber ?? null,
+      isSourceFile: isSourceFrame,
+      isServer,
+    };
+  });
+
+  const componentFrame = frames.find((frame) =>
+    checkIsSourceComponentName(frame.name),
+  );
+
+  const attributes: Record<string, string> = {};
+  for (const attribute of Array.from(element.attributes)) {
+    attributes[attribute.name] = attribute.value;
+  }
+
+  return {
+    tagName: element.tagName.toLowerCase(),
+    attributes,
+    text: getElementText(element),
+    children: getElementChildSummary(element),
+    stack: frames,
+    componentName: componentFrame?.name ?? null,
+    isServerComponent: Boolean(componentFrame?.isServer),
+    isClientComponent: Boolean(componentFrame && !componentFrame.isServer),
+    isNextProject: checkIsNextProject(),
+  };
+};
@@ -16,11 +16,26 @@ import { mountRoot } from "./utils/mount-root.js";
 import { ReactGrabRenderer } from "./components/renderer.js";
 import {
   getStack,
-  getElementContext,
   getNearestComponentName,
+  getElementInfo,
+  getElementContext,
+  getComponentInstance,
 } from "./context.js";
+import {
+  generateRichSnippet,
+  type GenerateSnippetOptions,
+} from "./utils/generate-snippet.js";
 import { isSourceFile, normalizeFileName } from "bippy/source";
 import { copyContent } from "./utils/copy-content.js";
+import {
+  captureScreenshot,
+  createImageAttachment,
+} from "./utils/capture-screenshot.js";
+import {
+  createClipboardSink,
+  createGrab,
+  deliverGrab,
+} from "./utils/grab-sinks.js";
 import { getElementAtPosition } from "./utils/get-element-at-position.js";
 import { isValidGrabbableElement } from "./utils/is-valid-grabbable-element.js";
 import {
@@ -28,6 +43,8 @@ import {
   getElementsInDragLoose,
 } from "./utils/get-elements-in-drag.js";
 import { createElementBounds } from "./utils/create-element-bounds.js";
+import { findComponentElements } from "./utils/find-component-elements.js";
+import { createElementsBounds } from "./utils/create-elements-bounds.js";
 import { stripTranslateFromTransform } from "./utils/strip-translate-from-transform.js";
 import {
   SUCCESS_LABEL_DURATION_MS,
@@ -41,14 +58,27 @@ import {
   LOGO_SVG,
   MODIFIER_KEYS,
   BLUR_DEACTIVATION_THRESHOLD_MS,
+  DEFAULT_HISTORY_MAX_ITEMS,
+  DEFAULT_OPEN_FILE_SERVER_URLS,
+  NAVIGATION_KEY_DIRECTIONS,
+  KEYBOARD_NAVIGATION_POINTER_TOLERANCE_PX,
 } from "./constants.js";
 import { isCLikeKey } from "./utils/is-c-like-key.js";
 import { keyMatchesCode, isTargetKeyCombination } from "./utils/hotkey.js";
 import { isEventFromOverlay } from "./utils/is-event-from-overlay.js";
-import { buildOpenFileUrl } from "./utils/build-open-file-url.js";
+import { getNavigatedElement } from "./utils/get-navigated-element.js";
+import { createFileOpener } from "./utils/file-opener.js";
+import {
+  addHistoryItem,
+  clearHistory,
+  createHistoryItem,
+  getDefaultHistoryStorage,
+  loadHistory,
+} from "./utils/grab-history.js";
 import type {
   Options,
   OverlayBounds,
+  DragRect,
   GrabbedBox,
   ReactGrabAPI,
   ReactGrabState,
@@ -59,10 +89,21 @@ import type {
   SelectionLabelInstance,
   AgentSession,
   AgentOptions,
+  CopyElementOptions,
+  GrabHistoryItem,
+  GrabHistoryOptions,
+  GrabSink,
+  ComponentTarget,
+  SelectionMode,
 } from "./types.js";
 import { mergeTheme, deepMergeTheme } from "./theme.js";
 import { createAgentManager } from "./agent.js";
 
+// NOTE: single-letter hotkeys stay out of the way of system shortcuts such as
+// Cmd+H (hide) while the activation keys are held
+const hasModifierKey = (event: KeyboardEvent): boolean =>
+  event.metaKey || event.ctrlKey || event.altKey;
+
 const onIdle = (callback: () => void) => {
   if ("scheduler" in globalThis) {
     return (
@@ -113,9 +154,19 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
         targetElement: null,
         dragBounds: null,
       }),
+      getElementInfo,
+      getElementContext: (element: Element) => getElementContext(element),
+      highlightElement: () => {},
+      findComponentElements: () => Promise.resolve([]),
       updateTheme: () => {},
       getTheme: () => initialTheme,
       setAgent: () => {},
+      getSelectionMode: () => rawOptions?.selectionMode ?? "element",
+      setSelectionMode: () => {},
+      getHistory: () => [],
+      clearHistory: () => {},
+      toggleHistory: () => {},
+      addSink: () => () => {},
     };
   }
 
@@ -132,6 +183,13 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
 
   const mergedTheme = mergeTheme(options.theme);
 
+  const historyOptions: GrabHistoryOptions | null =
+    options.history === false
+      ? null
+      : typeof options.history === "object"
+        ? options.history
+        : {};
+
   if (options.enabled === false || hasInited) {
     return {
       activate: () => {},
@@ -148,9 +206,19 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
         targetElement: null,
         dragBounds: null,
       }),
+      getElementInfo,
+      getElementContext: (element: Element) => getElementContext(element),
+      highlightElement: () => {},
+      findComponentElements: () => Promise.resolve([]),
       updateTheme: () => {},
       getTheme: () => mergedTheme,
       setAgent: () => {},
+      getSelectionMode: () => rawOptions?.selectionMode ?? "element",
+      setSelectionMode: () => {},
+      getHistory: () => [],
+      clearHistory: () => {},
+      toggleHistory: () => {},
+      addSink: () => () => {},
     };
   }
   hasInited = true;
@@ -195,6 +263,10 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
       null,
     );
     let lastElementDetectionTime = 0;
+    // NOTE: where the pointer was when the arrow keys took over the selection;
+    // pointer jitter around it keeps the navigated element instead of
+    // re-detecting whatever sits under the cursor
+    let keyboardNavigationPointer: { x: number; y: number } | null = null;
     const [isDragging, setIsDragging] = createSignal(false);
     const [dragStartX, setDragStartX] = createSignal(OFFSCREEN_POSITION);
     const [dragStartY, setDragStartY] = createSignal(OFFSCREEN_POSITION);
@@ -229,6 +301,9 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
     const [selectionLineNumber, setSelectionLineNumber] = createSignal<
       number | undefined
     >(undefined);
+    const [selectionColumnNumber, setSelectionColumnNumber] = createSignal<
+      number | undefined
+    >(undefined);
     const [isToggleFrozen, setIsToggleFrozen] = createSignal(false);
     const [isInputExpanded, setIsInputExpanded] = createSignal(false);
     const [frozenElement, setFrozenElement] = createSignal<Element | null>(
@@ -238,6 +313,26 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
       Boolean(options.agent?.provider),
     );
 
+    const historyStorage =
+      historyOptions?.storage !== undefined
+        ? historyOptions.storage
+        : getDefaultHistoryStorage();
+    const [historyItems, setHistoryItems] = createSignal<GrabHistoryItem[]>(
+      historyOptions ? loadHistory(historyStorage) : [],
+    );
+    const [isHistoryVisible, setIsHistoryVisible] = createSignal(false);
+    // NOTE: without configured sinks grabs go to the clipboard like before
+    const [grabSinks, setGrabSinks] = createSignal<GrabSink[]>(
+      options.sinks ?? [createClipboardSink()],
+    );
+    const [collectedElements, setCollectedElements] = createSignal<Element[]>(
+      [],
+    );
+    const [selectionMode, setSelectionMode] = createSignal<SelectionMode>(
+      options.selectionMode ?? "element",
+    );
+    const historyElements = new Map<string, Element[]>();
+
     const [nativeSelectionCursorX, setNativeSelectionCursorX] =
       createSignal(OFFSCREEN_POSITION);
     const [nativeSelectionCursorY, setNativeSelectionCursorY] =
@@ -516,38 +611,87 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
         .filter((textContent) => textContent.length > 0)
         .join("\n\n");
 
+    const recordHistoryItem = async (
+      elements: Element[],
+      content: string,
+      prompt?: string,
+      sentToAgent = false,
+    ) => {
+      if (!historyOptions || elements.length === 0) return;
+
+      const firstElement = elements[0];
+      const stack = await getStack(firstElement).catch(() => null);
+      const sourceFrame = stack?.find(
+        (frame) => frame.source && isSourceFile(frame.source.fileName),
+      );
+      const componentName = await getNearestComponentName(firstElement);
+
+      const item = createHistoryItem({
+        content,
+        prompt,
+        tagName: extractElementTagName(firstElement),
+        componentName,
+        fileName: sourceFrame?.source
+          ? normalizeFileName(sourceFrame.source.fileName)
+          : null,
+        lineNumber: sourceFrame?.source?.lineNumber ?? null,
+        elementCount: elements.length,
+        sentToAgent,
+      });
+
+      const items = addHistoryItem(
+        item,
+        historyOptions.maxItems ?? DEFAULT_HISTORY_MAX_ITEMS,
+        historyStorage,
+      );
+      historyElements.set(item.id, elements);
+      for (const itemId of historyElements.keys()) {
+        if (!items.some((historyItem) => historyItem.id === itemId)) {
+          historyElements.delete(itemId);
+        }
+      }
+      setHistoryItems(items);
+    };
+
     const tryCopyWithFallback = async (
       elements: Element[],
       extraPrompt?: string,
+      snippetOptions: Pick<
+        GenerateSnippetOptions,
+        "format" | "numbered" | "componentName"
+      > = {},
+      captureRect?: DragRect,
     ): Promise<boolean> => {
       let didCopy = false;
       let copiedContent = "";
 
       await options.onBeforeCopy?.(elements);
 
-      try {
-        const elementSnippetResults = await Promise.allSettled(
-          elements.map((element) =>
-            getElementContext(element, { maxLines: options.maxContextLines }),
-          ),
-        );
-
-        const elementSnippets: string[] = [];
-        for (const result of elementSnippetResults) {
-          if (result.status === "fulfilled" && result.value.trim()) {
-            elementSnippets.push(result.value);
-          }
-        }
-
-        if (elementSnippets.length > 0) {
-          const combinedSnippets = elementSnippets.join("\n\n");
+      const screenshotPromise = options.screenshot
+        ? captureScreenshot(elements, captureRect)
+        : Promise.resolve(null);
 
-          const plainTextContent = extraPrompt
-            ? `${extraPrompt}\n\n${combinedSnippets}`
-            : combinedSnippets;
+      try {
+        const snippet = await generateRichSnippet(elements, {
+          maxLines: options.maxContextLines,
+          styleContext: options.styleContext,
+          componentState: options.componentState,
+          ...snippetOptions,
+          format: snippetOptions.format ?? options.format,
+          prompt: extraPrompt,
+        });
 
-          copiedContent = plainTextContent;
-          didCopy = await copyContent(plainTextContent);
+        if (snippet?.content.trim()) {
+          const screenshot = await screenshotPromise;
+          const attachments = screenshot
+            ? [await createImageAttachment(screenshot, "screenshot.png")]
+            : undefined;
+          copiedContent = snippet.content;
+          didCopy = await deliverGrab(
+            grabSinks(),
+            createGrab(snippet, attachments),
+            (error) => options.onCopyError?.(error),
+          );
         }
 
         if (!didCopy) {
@@ -564,6 +708,7 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
 
         if (didCopy) {
           options.onCopySuccess?.(elements, copiedContent);
+          void recordHistoryItem(elements, copiedContent, extraPrompt);
         }
       } catch (error) {
         options.onCopyError?.(error as Error);
@@ -616,6 +761,12 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
 
     const copyMultipleElementsToClipboard = async (
       targetElements: Element[],
+      extraPrompt?: string,
+      snippetOptions: Pick<
+        GenerateSnippetOptions,
+        "numbered" | "componentName"
+      > = {},
+      captureRect?: DragRect,
     ) => {
       if (targetElements.length === 0) return;
 
@@ -630,10 +781,18 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
       }
       await new Promise((resolve) => requestAnimationFrame(resolve));
 
-      const didCopy = await tryCopyWithFallback(targetElements);
+      const didCopy = await tryCopyWithFallback(
+        targetElements,
+        extraPrompt,
+        snippetOptions,
+        captureRect,
+      );
 
       if (didCopy && theme().successLabels.enabled) {
-        showTemporarySuccessLabel(`${targetElements.length} elements`, "copy");
+        showTemporarySuccessLabel(
+          snippetOptions.componentName ?? `${targetElements.length} elements`,
+          extraPrompt ? "input-submit" : "copy",
+        );
       }
 
       notifyElementsSelected(targetElements);
@@ -651,10 +810,18 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
       }
     });
 
+    const targetComponent = createMemo(() => {
+      if (selectionMode() !== "component") return null;
+      const element = targetElement();
+      return element ? getComponentInstance(element) : null;
+    });
+
     const selectionBounds = createMemo((): OverlayBounds | undefined => {
       viewportVersion();
       const element = targetElement();
       if (!element) return undefined;
+      const component = targetComponent();
+      if (component) return createElementsBounds(component.elements);
       return createElementBounds(element);
     });
 
@@ -801,6 +968,7 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
           const clearSource = () => {
             setSelectionFilePath(undefined);
             setSelectionLineNumber(undefined);
+            setSelectionColumnNumber(undefined);
           };
 
           if (!element) {
@@ -815,6 +983,7 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
                 if (frame.source && isSourceFile(frame.source.fileName)) {
                   setSelectionFilePath(normalizeFileName(frame.source.fileName));
                   setSelectionLineNumber(frame.source.lineNumber);
+                  setSelectionColumnNumber(frame.source.columnNumber);
                   return;
                 }
               }
@@ -1054,11 +1223,37 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
       }
     };
 
+    const fileOpener = createFileOpener(
+      options.openFileServerUrls ?? [...DEFAULT_OPEN_FILE_SERVER_URLS],
+    );
+    // NOTE: probed up front so the first open already knows about a running
+    // local server instead of sending the path to react-grab.com
+    if (!options.onOpenFile) void fileOpener.probe();
+
+    const openFile = (
+      filePath: string,
+      lineNumber?: number,
+      columnNumber?: number,
+    ) => {
+      if (options.onOpenFile) {
+        options.onOpenFile(filePath, lineNumber, columnNumber);
+      } else {
+        fileOpener.open(filePath, lineNumber, columnNumber);
+      }
+    };
+
+    const openSelectionFile = () => {
+      const filePath = selectionFilePath();
+      if (!filePath) return;
+      openFile(filePath, selectionLineNumber(), selectionColumnNumber());
+    };
+
     const activateRenderer = () => {
       stopProgressAnimation();
       previouslyFocusedElement = document.activeElement;
       activationTimestamp = Date.now();
       setIsActivated(true);
+      if (!options.onOpenFile) void fileOpener.probe();
       options.onActivate?.();
     };
 
@@ -1071,7 +1266,9 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
       setIsToggleFrozen(false);
       setIsInputExpanded(false);
       setFrozenElement(null);
+      setCollectedElements([]);
       setSelectionLabelStatus("idle");
+      keyboardNavigationPointer = null;
       if (isDragging()) {
         setIsDragging(false);
         document.body.style.userSelect = "";
@@ -1094,6 +1291,7 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
     const agentOptions = options.agent
       ? {
           ...options.agent,
+          format: options.agent.format ?? options.format,
           onAbort: (session: AgentSession, element: Element | undefined) => {
             options.agent?.onAbort?.(session, element);
 
@@ -1118,14 +1316,60 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
         }
       : undefined;
 
-    const agentManager = createAgentManager(agentOptions);
+    const agentManager = createAgentManager(agentOptions, {
+      styleContext: options.styleContext,
+      componentState: options.componentState,
+    });
+
+    const startAgentSession = (
+      element: Element,
+      prompt: string,
+      position: { x: number; y: number },
+      selectionBounds: OverlayBounds,
+      elements: Element[] = [element],
+      componentName?: string,
+    ) => {
+      const screenshotPromise = options.screenshot
+        ? captureScreenshot(elements, selectionBounds)
+        : Promise.resolve(null);
+
+      void screenshotPromise
+        .then((screenshot) =>
+          screenshot
+            ? createImageAttachment(screenshot, "screenshot.png")
+            : undefined,
+        )
+        .catch(() => undefined)
+        .then((attachment) =>
+          agentManager.startSession({
+            element,
+            elements,
+            componentName,
+            prompt,
+            position,
+            selectionBounds,
+            attachments: attachment ? [attachment] : undefined,
+          }),
+        )
+        .then((session) => {
+          if (session) {
+            void recordHistoryItem(
+              elements,
+              session.context.content,
+              prompt,
+              true,
+            );
+          }
+        });
+    };
 
     const handleInputChange = (value: string) => {
       setInputText(value);
     };
 
     const handleInputSubmit = () => {
-      const element = frozenElement() || targetElement();
+      const collected = collectedElements();
+      const element = collected[0] ?? (frozenElement() || targetElement());
       const prompt = isInputMode() ? inputText().trim() : "";
 
       if (!element) {
@@ -1133,7 +1377,20 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
         return;
       }
 
-      const bounds = createElementBounds(element);
+      const component =
+        collected.length === 0 && selectionMode() === "component"
+          ? getComponentInstance(element)
+          : null;
+      const targetElements =
+        collected.length > 0
+          ? collected
+          : component
+            ? component.elements
+            : [element];
+
+      const bounds = component
+        ? createElementsBounds(component.elements)
+        : createElementBounds(element);
       const labelPositionX = mouseX();
       const currentX = bounds.x + bounds.width / 2;
       const currentY = bounds.y + bounds.height / 2;
@@ -1144,25 +1401,40 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
       if (hasAgentProvider() && prompt) {
         deactivateRenderer();
 
-        void agentManager.startSession({
+        startAgentSession(
           element,
           prompt,
-          position: { x: labelPositionX, y: currentY },
-          selectionBounds: bounds,
-        });
+          { x: labelPositionX, y: currentY },
+          bounds,
+          targetElements,
+          component?.name,
+        );
 
         return;
       }
 
       setIsInputMode(false);
       setInputText("");
+      setCollectedElements([]);
 
       const tagName = extractElementTagName(element);
-      void getNearestComponentName(element).then((componentName) => {
+      const componentNamePromise = component
+        ? Promise.resolve(component.name)
+        : getNearestComponentName(element);
+      void componentNamePromise.then((componentName) => {
         void executeCopyOperation(
           currentX,
           currentY,
-          () => copySingleElementToClipboard(element, prompt || undefined),
+          () =>
+            collected.length > 0 || component
+              ? copyMultipleElementsToClipboard(
+                  targetElements,
+                  prompt || undefined,
+                  component
+                    ? { componentName: component.name }
+                    : { numbered: true },
+                )
+              : copySingleElementToClipboard(element, prompt || undefined),
           bounds,
           tagName,
           componentName ?? undefined,
@@ -1194,6 +1466,157 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
       setIsInputMode(true);
     };
 
+    const toggleCollectedElement = (element: Element) => {
+      setIsToggleMode(true);
+      setCollectedElements((elements) =>
+        elements.includes(element)
+          ? elements.filter((collected) => collected !== element)
+          : [...elements, element],
+      );
+    };
+
+    const confirmCollection = () => {
+      const elements = collectedElements();
+      if (elements.length === 0) return;
+
+      const firstElement = elements[0];
+      const bounds = createElementBounds(firstElement);
+      const centerX = bounds.x + bounds.width / 2;
+      const centerY = bounds.y + bounds.height / 2;
+
+      setMouseX(centerX);
+      setMouseY(centerY);
+      setFrozenElement(firstElement);
+
+      if (hasAgentProvider()) {
+        setIsToggleMode(true);
+        setIsToggleFrozen(true);
+        setIsInputExpanded(true);
+        setIsInputMode(true);
+        return;
+      }
+
+      setCollectedElements([]);
+      const tagName = extractElementTagName(firstElement);
+      void getNearestComponentName(firstElement).then((componentName) => {
+        void executeCopyOperation(
+          centerX,
+          centerY,
+          () =>
+            copyMultipleElementsToClipboard(elements, undefined, {
+              numbered: true,
+            }),
+          bounds,
+          tagName,
+          componentName ?? undefined,
+          firstElement,
+        );
+      });
+    };
+
+    const getConnectedHistoryElements = (itemId: string): Element[] =>
+      (historyElements.get(itemId) ?? []).filter((element) =>
+        document.contains(element),
+      );
+
+    const toggleHistory = () => {
+      if (!historyOptions) return;
+      if (!isHistoryVisible() && isActivated()) {
+        deactivateRenderer();
+      }
+      setIsHistoryVisible((visible) => !visible);
+    };
+
+    const handleHistoryCopy = (itemId: string) => {
+      const item = historyItems().find(
+        (historyItem) => historyItem.id === itemId,
+      );
+      if (!item) return;
+
+      void copyContent(item.content).then((didCopy) => {
+        if (didCopy && theme().successLabels.enabled) {
+          showTemporarySuccessLabel(`<${item.tagName}>`, "copy");
+        }
+      });
+    };
+
+    const handleHistoryHighlight = (itemId: string) => {
+      const elements = getConnectedHistoryElements(itemId);
+      if (elements.length === 0) return;
+
+      elements[0].scrollIntoView({ block: "center" });
+      for (const element of elements) {
+        showTemporaryGrabbedBox(createElementBounds(element), element);
+      }
+    };
+
+    const handleHistorySend = (itemId: string) => {
+      const item = historyItems().find(
+        (historyItem) => historyItem.id === itemId,
+      );
+      const element = getConnectedHistoryElements(itemId)[0];
+      if (!item || !element || !hasAgentProvider()) return;
+
+      setIsHistoryVisible(false);
+
+      const bounds = createElementBounds(element);
+      const centerX = bounds.x + bounds.width / 2;
+      const centerY = bounds.y + bounds.height / 2;
+
+      if (item.prompt) {
+        startAgentSession(
+          element,
+          item.prompt,
+          { x: centerX, y: centerY },
+          bounds,
+        );
+        return;
+      }
+
+      setMouseX(centerX);
+      setMouseY(centerY);
+      setFrozenElement(element);
+      setIsToggleMode(true);
+      setIsToggleFrozen(true);
+      setIsInputExpanded(true);
+      if (!isActivated()) {
+        activateRenderer();
+      }
+      setIsInputMode(true);
+    };
+
+    const findAgentSession = (sessionId: string): AgentSession | undefined =>
+      agentManager.sessions().get(sessionId) ??
+      agentManager
+        .recentSessions()
+        .find((recentSession) => recentSession.id === sessionId);
+
+    const getConnectedSessionElement = (
+      sessionId: string,
+    ): Element | undefined => {
+      const element = agentManager.getSessionElement(sessionId);
+      return element && document.contains(element) ? element : undefined;
+    };
+
+    const handleDashboardOpenFile = (sessionId: string) => {
+      const session = findAgentSession(sessionId);
+      if (session?.filePath) openFile(session.filePath, session.lineNumber);
+    };
+
+    const handleDashboardScrollToElement = (sessionId: string) => {
+      const element = getConnectedSessionElement(sessionId);
+      if (!element) return;
+
+      element.scrollIntoView({ block: "center" });
+      showTemporaryGrabbedBox(createElementBounds(element), element);
+    };
+
+    const handleHistoryClear = () => {
+      clearHistory(historyStorage);
+      historyElements.clear();
+      setHistoryItems([]);
+    };
+
     const handleNativeSelectionCopy = async () => {
       const elements = nativeSelectionElements();
       if (elements.length === 0) return;
@@ -1258,6 +1681,15 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
     const handlePointerMove = (clientX: number, clientY: number) => {
       if (isInputMode() || isToggleFrozen()) return;
 
+      if (keyboardNavigationPointer) {
+        const distance = Math.hypot(
+          clientX - keyboardNavigationPointer.x,
+          clientY - keyboardNavigationPointer.y,
+        );
+        if (distance <= KEYBOARD_NAVIGATION_POINTER_TOLERANCE_PX) return;
+        keyboardNavigationPointer = null;
+      }
+
       setMouseX(clientX);
       setMouseY(clientY);
 
@@ -1265,6 +1697,7 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
       if (now - lastElementDetectionTime >= ELEMENT_DETECTION_THROTTLE_MS) {
         lastElementDetectionTime = now;
         onIdle(() => {
+          if (keyboardNavigationPointer) return;
           const candidate = getElementAtPosition(clientX, clientY);
           setDetectedElement(candidate);
         });
@@ -1301,7 +1734,69 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
       return true;
     };
 
-    const handlePointerUp = (clientX: number, clientY: number) => {
+    const grabElement = (
+      element: Element,
+      clientX: number,
+      clientY: number,
+      isCollectGesture = false,
+    ) => {
+      keyboardNavigationPointer = null;
+
+      if (isCollectGesture) {
+        toggleCollectedElement(element);
+        return;
+      }
+
+      if (collectedElements().length > 0) {
+        if (!collectedElements().includes(element)) {
+          setCollectedElements((elements) => [...elements, element]);
+        }
+        confirmCollection();
+        return;
+      }
+
+      setLastGrabbedElement(element);
+      const tagName = extractElementTagName(element);
+
+      const component =
+        selectionMode() === "component"
+          ? getComponentInstance(element)
+          : null;
+      if (component) {
+        void executeCopyOperation(
+          clientX,
+          clientY,
+          () =>
+            copyMultipleElementsToClipboard(component.elements, undefined, {
+              componentName: component.name,
+            }),
+          createElementsBounds(component.elements),
+          tagName,
+          component.name,
+          element,
+        );
+        return;
+      }
+
+      const bounds = createElementBounds(element);
+      void getNearestComponentName(element).then((componentName) => {
+        void executeCopyOperation(
+          clientX,
+          clientY,
+          () => copySingleElementToClipboard(element),
+          bounds,
+          tagName,
+          componentName ?? undefined,
+          element,
+        );
+      });
+    };
+
+    const handlePointerUp = (
+      clientX: number,
+      clientY: number,
+      isCollectGesture = false,
+    ) => {
       if (!isDragging()) return;
 
       const dragDistance = calculateDragDistance(clientX, clientY);
@@ -1353,7 +1848,13 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
               void executeCopyOperation(
                 clientX,
                 clientY,
-                () => copyMultipleElementsToClipboard(selectedElements),
+                () =>
+                  copyMultipleElementsToClipboard(
+                    selectedElements,
+                    undefined,
+                    {},
+                    dragRect,
+                  ),
                 bounds,
                 tagName,
                 componentName ?? undefined,
@@ -1363,23 +1864,14 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
           }
         }
       } else {
-        const element = getElementAtPosition(clientX, clientY);
+        // NOTE: a selection moved with the arrow keys may be a wrapper or a
+        // child that isn't the topmost element under the pointer
+        const element = keyboardNavigationPointer
+          ? detectedElement()
+          : getElementAtPosition(clientX, clientY);
         if (!element) return;
 
-        setLastGrabbedElement(element);
-        const bounds = createElementBounds(element);
-        const tagName = extractElementTagName(element);
-        void getNearestComponentName(element).then((componentName) => {
-          void executeCopyOperation(
-            clientX,
-            clientY,
-            () => copySingleElementToClipboard(element),
-            bounds,
-            tagName,
-            componentName ?? undefined,
-            element,
-          );
-        });
+        grabElement(element, clientX, clientY, isCollectGesture);
       }
     };
 
@@ -1405,10 +1897,27 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
             return;
           }
 
+          if (collectedElements().length > 0) {
+            deactivateRenderer();
+            return;
+          }
+
           if (isHoldingKeys()) {
             deactivateRenderer();
             return;
           }
+
+          if (isHistoryVisible()) {
+            setIsHistoryVisible(false);
+            return;
+          }
+        }
+
+        if (event.key === "Enter" && collectedElements().length > 0) {
+          event.preventDefault();
+          event.stopPropagation();
+          confirmCollection();
+          return;
         }
 
         if (event.key === "Enter" && isHoldingKeys() && !isInputMode()) {
@@ -1442,20 +1951,78 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
           return;
         }
 
+        if (
+          event.key === "Enter" &&
+          !hasModifierKey(event) &&
+          isActivated() &&
+          !isInputMode() &&
+          !isCopying()
+        ) {
+          const element = targetElement();
+          if (!element) return;
+
+          event.preventDefault();
+          event.stopPropagation();
+          grabElement(element, mouseX(), mouseY());
+          return;
+        }
+
+        if (
+          event.key.toLowerCase() === "h" &&
+          !hasModifierKey(event) &&
+          isActivated() &&
+          historyOptions
+        ) {
+          event.preventDefault();
+          event.stopPropagation();
+          toggleHistory();
+          return;
+        }
+
+        if (
+          event.key.toLowerCase() === "m" &&
+          !hasModifierKey(event) &&
+          isActivated()
+        ) {
+          event.preventDefault();
+          event.stopPropagation();
+          setSelectionMode((mode) =>
+            mode === "component" ? "element" : "component",
+          );
+          return;
+        }
+
+        const navigationDirection = NAVIGATION_KEY_DIRECTIONS[event.key];
+        if (navigationDirection && isActivated() && !isCopying()) {
+          const currentElement = targetElement();
+          if (!currentElement) return;
+
+          event.preventDefault();
+          event.stopPropagation();
+
+          // NOTE: holding Alt steps across component boundaries in the fiber
+          // tree instead of plain DOM parents/children/siblings
+          const navigatedElement = getNavigatedElement(
+            currentElement,
+            navigationDirection,
+            event.altKey,
+          );
+          if (!navigatedElement) return;
+
+          keyboardNavigationPointer ??= { x: mouseX(), y: mouseY() };
+          const bounds = createElementBounds(navigatedElement);
+          setMouseX(bounds.x + bounds.width / 2);
+          setMouseY(bounds.y + bounds.height / 2);
+          setDetectedElement(navigatedElement);
+          return;
+        }
+
         if (event.key.toLowerCase() === "o" && !isInputMode()) {
           if (isActivated() && (event.metaKey || event.ctrlKey)) {
-            const filePath = selectionFilePath();
-            const lineNumber = selectionLineNumber();
-            if (filePath) {
+            if (selectionFilePath()) {
               event.preventDefault();
               event.stopPropagation();
-
-              if (options.onOpenFile) {
-                options.onOpenFile(filePath, lineNumber);
-              } else {
-                const url = buildOpenFileUrl(filePath, lineNumber);
-                window.open(url, "_blank");
-              }
+              openSelectionFile();
             }
             return;
           }
@@ -1630,7 +2197,7 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
     window.addEventListener(
       "mouseup",
       (event: MouseEvent) => {
-        handlePointerUp(event.clientX, event.clientY);
+        handlePointerUp(event.clientX, event.clientY, event.shiftKey);
       },
       { signal: eventListenerSignal },
     );
@@ -1696,7 +2263,12 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
             setDidJustDrag(false);
           }
 
-          if (isToggleMode() && !isCopying()) {
+          if (
+            isToggleMode() &&
+            !isCopying() &&
+            !isInputMode() &&
+            !event.shiftKey
+          ) {
             if (!isHoldingKeys()) {
               deactivateRenderer();
             } else {
@@ -1742,6 +2314,23 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
       { signal: eventListenerSignal },
     );
 
+    // NOTE: hot updates and agent edits can replace a session's element
+    // without any scroll or resize, so DOM mutations also re-run re-acquisition
+    let mutationFrameId: number | null = null;
+    const sessionMutationObserver = new MutationObserver(() => {
+      if (mutationFrameId !== null || agentManager.sessions().size === 0) {
+        return;
+      }
+      mutationFrameId = requestAnimationFrame(() => {
+        mutationFrameId = null;
+        setViewportVersion((version) => version + 1);
+      });
+    });
+    sessionMutationObserver.observe(document.body, {
+      childList: true,
+      subtree: true,
+    });
+
     document.addEventListener(
       "copy",
       (event: ClipboardEvent) => {
@@ -1846,6 +2435,8 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
 
     onCleanup(() => {
       abortController.abort();
+      sessionMutationObserver.disconnect();
+      if (mutationFrameId !== null) cancelAnimationFrame(mutationFrameId);
       if (holdTimerId) window.clearTimeout(holdTimerId);
       if (keydownSpamTimerId) window.clearTimeout(keydownSpamTimerId);
       stopAutoScroll();
@@ -1924,6 +2515,47 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
         !isToggleFrozen(),
     );
 
+    const collectedBoxes = createMemo(() => {
+      viewportVersion();
+      return collectedElements()
+        .map((element, elementIndex) => ({
+          element,
+          index: elementIndex + 1,
+        }))
+        .filter(({ element }) => document.contains(element))
+        .map(({ element, index }) => ({
+          id: `collected-${index}`,
+          bounds: createElementBounds(element),
+          index,
+        }));
+    });
+
+    const historyPanelItems = createMemo(() => {
+      if (!isHistoryVisible()) return [];
+      viewportVersion();
+      return historyItems().map((item) => ({
+        ...item,
+        isElementAvailable: getConnectedHistoryElements(item.id).length > 0,
+      }));
+    });
+
+    const agentDashboardSessions = createMemo(() => {
+      if (!hasAgentProvider()) return [];
+      viewportVersion();
+      return [
+        ...Array.from(agentManager.sessions().values(), (session) => ({
+          ...session,
+          isActive: true,
+        })),
+        ...agentManager
+          .recentSessions()
+          .map((session) => ({ ...session, isActive: false })),
+      ].map((session) => ({
+        ...session,
+        isElementAvailable: Boolean(getConnectedSessionElement(session.id)),
+      }));
+    });
+
     const shouldShowGrabbedBoxes = createMemo(
       () => theme().grabbedBoxes.enabled,
     );
@@ -1945,14 +2577,18 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
             selectionBounds={selectionBounds()}
             selectionFilePath={selectionFilePath()}
             selectionLineNumber={selectionLineNumber()}
+            onSelectionOpen={openSelectionFile}
             selectionTagName={selectionTagName()}
-            selectionComponentName={selectionComponentName()}
+            selectionComponentName={
+              targetComponent()?.name ?? selectionComponentName()
+            }
             selectionLabelVisible={selectionLabelVisible()}
             selectionLabelStatus={selectionLabelStatus()}
             labelInstances={computedLabelInstances()}
             dragVisible={dragVisible()}
             dragBounds={dragBounds()}
             grabbedBoxes={shouldShowGrabbedBoxes() ? grabbedBoxes() : []}
+            collectedBoxes={collectedBoxes()}
             labelZIndex={Z_INDEX_LABEL}
             mouseX={cursorPosition().x}
             mouseY={cursorPosition().y}
@@ -1962,6 +2598,25 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
             hasAgent={hasAgentProvider()}
             agentSessions={agentManager.sessions()}
             onAbortSession={(sessionId) => agentManager.abortSession(sessionId)}
+            onFollowUpSession={
+              agentManager.supportsFollowUp()
+                ? agentManager.followUpSession
+                : undefined
+            }
+            onDismissSession={agentManager.dismissSession}
+            onUndoSession={
+              agentManager.supportsUndo()
+                ? (sessionId) => void agentManager.undoSession(sessionId)
+                : undefined
+            }
+            onRespondToPermission={agentManager.respondToPermission}
+            onMoveQueuedSession={agentManager.moveQueuedSession}
+            agentDashboardSessions={agentDashboardSessions()}
+            onDashboardRetry={(sessionId) =>
+              void agentManager.retrySession(sessionId)
+            }
+            onDashboardOpenFile={handleDashboardOpenFile}
+            onDashboardScrollToElement={handleDashboardScrollToElement}
             onInputChange={handleInputChange}
             onInputSubmit={() => void handleInputSubmit()}
             onInputCancel={handleInputCancel}
@@ -1974,6 +2629,13 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
             nativeSelectionBounds={nativeSelectionBounds()}
             onNativeSelectionCopy={() => void handleNativeSelectionCopy()}
             onNativeSelectionEnter={handleNativeSelectionEnter}
+            historyVisible={isHistoryVisible()}
+            historyItems={historyPanelItems()}
+            onHistoryCopy={handleHistoryCopy}
+            onHistoryHighlight={handleHistoryHighlight}
+            onHistorySend={handleHistorySend}
+            onHistoryClear={handleHistoryClear}
+            onHistoryClose={() => setIsHistoryVisible(false)}
             theme={theme()}
           />
         ),
@@ -1987,13 +2649,16 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
 
     const copyElementAPI = async (
       elements: Element | Element[],
+      copyOptions?: CopyElementOptions,
     ): Promise<boolean> => {
       const elementsArray = Array.isArray(elements) ? elements : [elements];
       if (elementsArray.length === 0) return false;
 
       await options.onBeforeCopy?.(elementsArray);
 
-      const didCopy = await tryCopyWithFallback(elementsArray);
+      const didCopy = await tryCopyWithFallback(elementsArray, undefined, {
+        format: copyOptions?.format,
+      });
 
       options.onAfterCopy?.(elementsArray, didCopy);
 
@@ -2039,22 +2704,57 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
       isActive: () => isActivated(),
       dispose: () => {
         hasInited = false;
+        grabSinks().forEach((sink) => sink.dispose?.());
         dispose();
       },
       copyElement: copyElementAPI,
       getState: getStateAPI,
+      getElementInfo,
+      getElementContext: (element: Element) =>
+        getElementContext(element, {
+          maxLines: options.maxContextLines,
+          styleContext: options.styleContext,
+          componentState: options.componentState,
+        }),
+      highlightElement: (elements: Element | Element[]) => {
+        const elementsToHighlight = Array.isArray(elements)
+          ? elements
+          : [elements];
+        for (const element of elementsToHighlight) {
+          if (!document.contains(element)) continue;
+          showTemporaryGrabbedBox(createElementBounds(element), element);
+        }
+      },
+      findComponentElements: (target: ComponentTarget) =>
+        findComponentElements(target),
       updateTheme: (partialTheme: DeepPartial<Theme>) => {
         const currentTheme = theme();
         const mergedTheme = deepMergeTheme(currentTheme, partialTheme);
         setTheme(mergedTheme);
       },
       getTheme: () => theme(),
+      getSelectionMode: () => selectionMode(),
+      setSelectionMode: (mode: SelectionMode) => setSelectionMode(mode),
+      getHistory: () => historyItems(),
+      clearHistory: handleHistoryClear,
+      toggleHistory,
+      addSink: (sink: GrabSink) => {
+        setGrabSinks((previousSinks) => [...previousSinks, sink]);
+        return () => {
+          setGrabSinks((previousSinks) =>
+            previousSinks.filter((previousSink) => previousSink !== sink),
+          );
+          sink.dispose?.();
+        };
+      },
       setAgent: (newAgentOptions: AgentOptions) => {
         const existingOptions = agentManager.getOptions();
         const mergedOptions: AgentOptions = {
           ...existingOptions,
           ...newAgentOptions,
           provider: newAgentOptions.provider ?? existingOptions?.provider,
+          format:
+            newAgentOptions.format ?? existingOptions?.format ?? options.format,
           onAbort: (session: AgentSession, element: Element | undefined) => {
             newAgentOptions?.onAbort?.(session, element);
 
@@ -2088,7 +2788,10 @@ export const init = (rawOptions?: Options): ReactGrabAPI => {
 export {
   getStack,
   getElementContext as formatElementInfo,
+  getElementInfo,
+  getComponentState,
   getFileName,
+  getNearestComponentName,
 } from "./context.js";
 export { isInstrumentationActive } from "bippy";
 export { DEFAULT_THEME } from "./theme.js";
@@ -2099,9 +2802,49 @@ export type {
   ReactGrabRendererProps,
   ReactGrabAPI,
   AgentContext,
+  AgentErrorCode,
+  AgentEvent,
+  AgentFileChange,
+  AgentApprovalMode,
+  AgentAttachment,
+  AgentPermissionDecision,
+  AgentPermissionRequest,
   AgentSession,
   AgentSessionStorage,
+  ElementFingerprint,
   AgentProvider,
+  BoxEdges,
+  ComponentStateContextValue,
+  ComponentStateOptions,
+  ComponentStateSnapshot,
+  CopyElementOptions,
+  ElementBoxModel,
+  ElementChildSummary,
+  ElementInfo,
+  ElementSnippetFrame,
+  ElementSnippetRecord,
+  ReactGrabClipboardPayload,
+  ElementStackFrame,
+  ElementStyleContext,
+  Grab,
+  GrabHistoryItem,
+  GrabSink,
+  ComponentTarget,
+  PageCommand,
+  GrabHistoryOptions,
+  SelectionMode,
+  SnippetFormat,
+  SnippetFormatter,
+  SnippetFormatterContext,
 } from "./types.js";
 
 export { generateSnippet } from "./utils/generate-snippet.js";
+export { SNIPPET_FORMATTERS } from "./utils/snippet-formatters.js";
+export { readClipboardPayload } from "./utils/read-clipboard-payload.js";
+export {
+  createAgentSink,
+  createClipboardSink,
+  createHttpSink,
+  createWebSocketSink,
+} from "./utils/grab-sinks.js";
+export { CLIPBOARD_PAYLOAD_MIME_TYPE } from "./constants.js";
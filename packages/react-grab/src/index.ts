@@ -2,10 +2,20 @@ export { init } from "./core.js";
 export {
   getStack,
   formatElementInfo,
+  getElementInfo,
   isInstrumentationActive,
   DEFAULT_THEME,
 } from "./core.js";
 export { generateSnippet } from "./utils/generate-snippet.js";
+export { SNIPPET_FORMATTERS } from "./utils/snippet-formatters.js";
+export { readClipboardPayload } from "./utils/read-clipboard-payload.js";
+export {
+  createAgentSink,
+  createClipboardSink,
+  createHttpSink,
+  createWebSocketSink,
+} from "./utils/grab-sinks.js";
+export { CLIPBOARD_PAYLOAD_MIME_TYPE } from "./constants.js";
 export type {
   Options,
   ReactGrabAPI,
@@ -26,10 +36,41 @@ export type {
   CrosshairContext,
   ElementLabelContext,
   AgentContext,
+  AgentErrorCode,
+  AgentEvent,
+  AgentFileChange,
+  AgentApprovalMode,
+  AgentAttachment,
+  AgentPermissionDecision,
+  AgentPermissionRequest,
   AgentSession,
   AgentProvider,
   AgentSessionStorage,
+  ElementFingerprint,
   AgentOptions,
+  BoxEdges,
+  ComponentStateContextValue,
+  ComponentStateOptions,
+  ComponentStateSnapshot,
+  CopyElementOptions,
+  ElementBoxModel,
+  ElementChildSummary,
+  ElementInfo,
+  ElementSnippetFrame,
+  ElementSnippetRecord,
+  ReactGrabClipboardPayload,
+  ElementStackFrame,
+  ElementStyleContext,
+  Grab,
+  GrabHistoryItem,
+  GrabSink,
+  ComponentTarget,
+  PageCommand,
+  GrabHistoryOptions,
+  SelectionMode,
+  SnippetFormat,
+  SnippetFormatter,
+  SnippetFormatterContext,
 } from "./types.js";
 
 import { init } from "./core.js";
@@ -205,28 +205,252 @@ export interface ActivationKey {
   altKey?: boolean;
 }
 
+export interface ElementSnippetFrame {
+  name: string;
+  fileName: string | null;
+  lineNumber: number | null;
+  columnNumber: number | null;
+  isServer: boolean;
+}
+
+export interface ComponentStateOptions {
+  maxComponents?: number;
+  maxDepth?: number;
+  maxBytes?: number;
+}
+
+export interface ComponentStateContextValue {
+  name: string;
+  value: unknown;
+}
+
+export interface ComponentStateSnapshot {
+  name: string;
+  props: unknown;
+  state: unknown[];
+  context: ComponentStateContextValue[];
+}
+
+export interface BoxEdges {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface ElementBoxModel {
+  width: number;
+  height: number;
+  boxSizing: string;
+  margin: BoxEdges;
+  padding: BoxEdges;
+  border: BoxEdges;
+}
+
+export interface ElementStyleContext {
+  classList: string[];
+  computedStyles: Record<string, string>;
+  boxModel: ElementBoxModel;
+  cssVariables: Record<string, string>;
+  mediaQueries: string[];
+}
+
+export interface ComponentInstance {
+  name: string;
+  elements: Element[];
+}
+
+export interface ElementSnippetRecord {
+  index?: number;
+  tagName: string;
+  htmlPreview: string;
+  componentName: string | null;
+  fileName: string | null;
+  lineNumber: number | null;
+  columnNumber: number | null;
+  stack: ElementSnippetFrame[];
+  styleContext?: ElementStyleContext;
+  componentState?: ComponentStateSnapshot[];
+}
+
+export interface ElementStackFrame {
+  name: string;
+  fileName: string | null;
+  lineNumber: number | null;
+  columnNumber: number | null;
+  isSourceFile: boolean;
+  isServer: boolean;
+}
+
+export interface ElementChildSummary {
+  elementCount: number;
+  textNodeCount: number;
+  tagNames: string[];
+}
+
+export interface ElementInfo {
+  tagName: string;
+  attributes: Record<string, string>;
+  text: string;
+  children: ElementChildSummary;
+  stack: ElementStackFrame[];
+  componentName: string | null;
+  isServerComponent: boolean;
+  isClientComponent: boolean;
+  isNextProject: boolean;
+}
+
+export interface SnippetFormatterContext {
+  elements: ElementSnippetRecord[];
+  prompt?: string;
+}
+
+export type SnippetFormatter = (context: SnippetFormatterContext) => string;
+
+export type SnippetFormat =
+  | "text"
+  | "markdown"
+  | "json"
+  | "xml"
+  | SnippetFormatter;
+
+export interface ReactGrabClipboardPayload {
+  version: number;
+  content: string;
+  prompt?: string;
+  elements: ElementSnippetRecord[];
+}
+
+export interface Grab {
+  id: string;
+  content: string;
+  html: string;
+  prompt?: string;
+  elements: ElementSnippetRecord[];
+  url: string;
+  createdAt: number;
+  attachments?: AgentAttachment[];
+}
+
+export interface GrabSink {
+  name: string;
+  // NOTE: throwing (or rejecting) marks the delivery as failed for this sink
+  send: (grab: Grab) => void | Promise<void>;
+  dispose?: () => void;
+}
+
+export interface ComponentTarget {
+  componentName?: string;
+  // NOTE: matched by path suffix, so "Header.tsx", "src/Header.tsx" and an
+  // absolute path all find the same file
+  fileName?: string;
+}
+
+export type PageCommand =
+  | { type: "highlight"; target: ComponentTarget }
+  | { type: "scroll-into-view"; target: ComponentTarget }
+  | { type: "reload" };
+
+export interface CopyElementOptions {
+  format?: SnippetFormat;
+}
+
 export interface AgentContext<T = unknown> {
   content: string;
   prompt: string;
   options?: T;
+  sessionId?: string;
+  approvalMode?: AgentApprovalMode;
+  attachments?: AgentAttachment[];
+}
+
+export interface AgentAttachment {
+  type: "image";
+  mediaType: "image/png";
+  // NOTE: base64 without the data URL prefix, so servers can forward it as is
+  data: string;
+  name?: string;
+}
+
+export type AgentApprovalMode = "bypass" | "ask";
+
+export type AgentPermissionDecision = "allow" | "deny" | "always-allow";
+
+export interface AgentPermissionRequest {
+  id: string;
+  toolName: string;
+  command?: string;
+  filePath?: string;
+  input?: unknown;
+}
+
+export type AgentErrorCode = "network" | "agent" | "unknown";
+
+export interface AgentFileChange {
+  path: string;
+  status: "added" | "modified" | "deleted";
+  diff: string;
+}
+
+export type AgentEvent =
+  | { type: "status"; message: string }
+  | { type: "text-delta"; text: string }
+  | { type: "tool-call"; id?: string; name: string; input?: unknown }
+  | {
+      type: "tool-result";
+      id?: string;
+      name?: string;
+      output?: string;
+      isError?: boolean;
+    }
+  | { type: "file-edit"; path: string; diff: string }
+  | { type: "file-changes"; files: AgentFileChange[] }
+  | { type: "permission-request"; request: AgentPermissionRequest }
+  | {
+      type: "permission-decision";
+      id: string;
+      decision: AgentPermissionDecision;
+    }
+  | { type: "error"; message: string; code: AgentErrorCode }
+  | { type: "done" };
+
+export interface ElementFingerprint {
+  tagName: string;
+  cssPath: string;
+  componentPath: string[];
+  filePath?: string;
+  lineNumber?: number;
+  textHash?: string;
 }
 
 export interface AgentSession {
   id: string;
   context: AgentContext;
   lastStatus: string;
+  events?: AgentEvent[];
   isStreaming: boolean;
   createdAt: number;
   position: { x: number; y: number };
   selectionBounds?: OverlayBounds;
   tagName?: string;
   componentName?: string;
+  filePath?: string;
+  lineNumber?: number;
+  fingerprint?: ElementFingerprint;
+  completedAt?: number;
+  followUpPrompts?: string[];
+  fileChanges?: AgentFileChange[];
+  pendingPermission?: AgentPermissionRequest;
+  queuePosition?: number;
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export interface AgentProvider<T = any> {
-  send: (context: AgentContext<T>, signal: AbortSignal) => AsyncIterable<string>;
-  resume?: (sessionId: string, signal: AbortSignal, storage: AgentSessionStorage) => AsyncIterable<string>;
+  send: (context: AgentContext<T>, signal: AbortSignal) => AsyncIterable<string | AgentEvent>;
+  resume?: (sessionId: string, signal: AbortSignal, storage: AgentSessionStorage) => AsyncIterable<string | AgentEvent>;
+  followUp?: (sessionId: string, prompt: string, signal: AbortSignal) => AsyncIterable<string | AgentEvent>;
+  undo?: (sessionId: string) => Promise<void>;
+  respondToPermission?: (sessionId: string, requestId: string, decision: AgentPermissionDecision) => Promise<void>;
   supportsResume?: boolean;
 }
 
@@ -241,12 +465,52 @@ export interface AgentOptions<T = any> {
   provider?: AgentProvider<T>;
   storage?: AgentSessionStorage | null;
   getOptions?: () => T;
+  // NOTE: "ask" only pauses for approvals with the Claude Code adapter, the
+  // other CLIs can't forward them and fall back to their own approval rules
+  approvalMode?: AgentApprovalMode;
+  maxConcurrency?: number;
+  onPermissionRequest?: (
+    request: AgentPermissionRequest,
+    session: AgentSession,
+  ) =>
+    | AgentPermissionDecision
+    | undefined
+    | Promise<AgentPermissionDecision | undefined>;
   onStart?: (session: AgentSession) => void;
-  onStatus?: (status: string, session: AgentSession) => void;
+  onStatus?: (
+    status: string,
+    session: AgentSession,
+    event: AgentEvent,
+  ) => void;
+  onFollowUp?: (prompt: string, session: AgentSession) => void;
+  onUndo?: (session: AgentSession) => void;
   onComplete?: (session: AgentSession) => void;
   onError?: (error: Error, session: AgentSession) => void;
   onResume?: (session: AgentSession) => void;
   onAbort?: (session: AgentSession, element: Element | undefined) => void;
+  format?: SnippetFormat;
+}
+
+export type SelectionMode = "element" | "component";
+
+export type NavigationDirection = "parent" | "child" | "previous" | "next";
+
+export interface GrabHistoryItem {
+  id: string;
+  content: string;
+  prompt?: string;
+  tagName: string;
+  componentName: string | null;
+  fileName: string | null;
+  lineNumber: number | null;
+  elementCount: number;
+  sentToAgent: boolean;
+  createdAt: number;
+}
+
+export interface GrabHistoryOptions {
+  maxItems?: number;
+  storage?: AgentSessionStorage | null;
 }
 
 export interface Options {
@@ -254,6 +518,9 @@ export interface Options {
   keyHoldDuration?: number;
   allowActivationInsideInput?: boolean;
   maxContextLines?: number;
+  format?: SnippetFormat;
+  styleContext?: boolean;
+  componentState?: boolean | ComponentStateOptions;
   theme?: Theme;
   activationShortcut?: (event: KeyboardEvent) => boolean;
   activationKey?: ActivationKey;
@@ -288,8 +555,17 @@ export interface Options {
     context: ElementLabelContext,
   ) => void;
   onCrosshair?: (visible: boolean, context: CrosshairContext) => void;
-  onOpenFile?: (filePath: string, lineNumber?: number) => void;
+  onOpenFile?: (
+    filePath: string,
+    lineNumber?: number,
+    columnNumber?: number,
+  ) => void;
+  openFileServerUrls?: string[];
   agent?: AgentOptions;
+  history?: boolean | GrabHistoryOptions;
+  selectionMode?: SelectionMode;
+  screenshot?: boolean;
+  sinks?: GrabSink[];
 }
 
 export interface ReactGrabAPI {
@@ -298,11 +574,24 @@ export interface ReactGrabAPI {
   toggle: () => void;
   isActive: () => boolean;
   dispose: () => void;
-  copyElement: (elements: Element | Element[]) => Promise<boolean>;
+  copyElement: (
+    elements: Element | Element[],
+    options?: CopyElementOptions,
+  ) => Promise<boolean>;
   getState: () => ReactGrabState;
+  getElementInfo: (element: Element) => Promise<ElementInfo>;
+  getElementContext: (element: Element) => Promise<string>;
+  highlightElement: (elements: Element | Element[]) => void;
+  findComponentElements: (target: ComponentTarget) => Promise<Element[]>;
   updateTheme: (theme: DeepPartial<Theme>) => void;
   getTheme: () => Required<Theme>;
   setAgent: (options: AgentOptions) => void;
+  getSelectionMode: () => SelectionMode;
+  setSelectionMode: (mode: SelectionMode) => void;
+  getHistory: () => GrabHistoryItem[];
+  clearHistory: () => void;
+  toggleHistory: () => void;
+  addSink: (sink: GrabSink) => () => void;
 }
 
 export interface OverlayBounds {
@@ -332,6 +621,7 @@ export interface ReactGrabRendererProps {
   selectionBounds?: OverlayBounds;
   selectionFilePath?: string;
   selectionLineNumber?: number;
+  onSelectionOpen?: () => void;
   selectionTagName?: string;
   selectionComponentName?: string;
   selectionLabelVisible?: boolean;
@@ -344,6 +634,11 @@ export interface ReactGrabRendererProps {
     bounds: OverlayBounds;
     createdAt: number;
   }>;
+  collectedBoxes?: Array<{
+    id: string;
+    bounds: OverlayBounds;
+    index: number;
+  }>;
   labelZIndex?: number;
   mouseX?: number;
   mouseY?: number;
@@ -353,6 +648,14 @@ export interface ReactGrabRendererProps {
   hasAgent?: boolean;
   agentSessions?: Map<string, AgentSession>;
   onAbortSession?: (sessionId: string) => void;
+  onFollowUpSession?: (sessionId: string, prompt: string) => void;
+  onDismissSession?: (sessionId: string) => void;
+  onUndoSession?: (sessionId: string) => void;
+  onRespondToPermission?: (
+    sessionId: string,
+    decision: AgentPermissionDecision,
+  ) => void;
+  onMoveQueuedSession?: (sessionId: string, offset: number) => void;
   onInputChange?: (value: string) => void;
   onInputSubmit?: () => void;
   onInputCancel?: () => void;
@@ -365,6 +668,19 @@ export interface ReactGrabRendererProps {
   nativeSelectionBounds?: OverlayBounds;
   onNativeSelectionCopy?: () => void;
   onNativeSelectionEnter?: () => void;
+  historyVisible?: boolean;
+  historyItems?: Array<GrabHistoryItem & { isElementAvailable: boolean }>;
+  onHistoryCopy?: (itemId: string) => void;
+  onHistoryHighlight?: (itemId: string) => void;
+  onHistorySend?: (itemId: string) => void;
+  onHistoryClear?: () => void;
+  onHistoryClose?: () => void;
+  agentDashboardSessions?: Array<
+    AgentSession & { isActive: boolean; isElementAvailable: boolean }
+  >;
+  onDashboardRetry?: (sessionId: string) => void;
+  onDashboardOpenFile?: (sessionId: string) => void;
+  onDashboardScrollToElement?: (sessionId: string) => void;
   theme?: Required<Theme>;
 }
 
@@ -0,0 +1,48 @@
+import { AGENT_SESSION_MAX_EVENTS } from "../constants.js";
+import type { AgentErrorCode, AgentEvent, AgentSession } from "../types.js";
+
+export const normalizeAgentEvent = (item: string | AgentEvent): AgentEvent =>
+  typeof item === "string" ? { type: "status", message: item } : item;
+
+export const getAgentErrorCode = (error: unknown): AgentErrorCode => {
+  // NOTE: fetch rejects with a TypeError when the connection fails or drops
+  // mid-stream (e.g. the page reloads), which keeps the session resumable
+  if (error instanceof TypeError) return "network";
+  return "unknown";
+};
+
+export const getAgentEventStatus = (
+  event: AgentEvent,
+  session: AgentSession,
+): string => {
+  const previousEvent = session.events?.at(-1);
+
+  switch (event.type) {
+    case "status":
+      return event.message;
+    case "text-delta":
+      return previousEvent?.type === "text-delta"
+        ? `${session.lastStatus}${event.text}`
+        : event.text;
+    case "tool-call":
+      return `Using ${event.name}…`;
+    case "file-edit":
+      return `Edited ${event.path}`;
+    case "error":
+      return `Error: ${event.message}`;
+    case "permission-request":
+      return `Waiting for approval: ${event.request.toolName}`;
+    case "permission-decision":
+      return event.decision === "deny" ? "Denied" : "Approved";
+    case "tool-result":
+    case "file-changes":
+    case "done":
+      return session.lastStatus;
+  }
+};
+
+export const appendAgentEvent = (
+  session: AgentSession,
+  event: AgentEvent,
+): AgentEvent[] =>
+  [...(session.events ?? []), event].slice(-AGENT_SESSION_MAX_EVENTS);
@@ -16,17 +16,20 @@ export const createSession = (
   selectionBounds?: OverlayBounds,
   tagName?: string,
   componentName?: string,
-): AgentSession => ({
-  id: generateSessionId(),
-  context,
-  lastStatus: "",
-  isStreaming: true,
-  createdAt: Date.now(),
-  position,
-  selectionBounds,
-  tagName,
-  componentName,
-});
+): AgentSession => {
+  const id = generateSessionId();
+  return {
+    id,
+    context: { ...context, sessionId: id },
+    lastStatus: "",
+    isStreaming: true,
+    createdAt: Date.now(),
+    position,
+    selectionBounds,
+    tagName,
+    componentName,
+  };
+};
 
 const getStorage = (
   storage?: AgentSessionStorage | null,
@@ -37,6 +40,15 @@ const getStorage = (
 
 const memorySessions = new Map<string, AgentSession>();
 
+// NOTE: screenshots are only needed for the first request and would quickly
+// fill the storage quota, so they are not persisted
+const toStoredSession = (session: AgentSession): AgentSession => {
+  if (!session.context.attachments) return session;
+  const context = { ...session.context };
+  delete context.attachments;
+  return { ...session, context };
+};
+
 export const saveSessions = (
   sessions: Map<string, AgentSession>,
   storage?: AgentSessionStorage | null,
@@ -49,7 +61,9 @@ export const saveSessions = (
   }
 
   try {
-    const sessionsObject = Object.fromEntries(sessions);
+    const sessionsObject = Object.fromEntries(
+      Array.from(sessions, ([id, session]) => [id, toStoredSession(session)]),
+    );
     resolvedStorage.setItem(STORAGE_KEY, JSON.stringify(sessionsObject));
   } catch {
     memorySessions.clear();
@@ -117,7 +131,19 @@ export const clearSessionById = (
 
 export const updateSession = (
   session: AgentSession,
-  updates: Partial<Pick<AgentSession, "lastStatus" | "isStreaming">>,
+  updates: Partial<
+    Pick<
+      AgentSession,
+      | "lastStatus"
+      | "isStreaming"
+      | "followUpPrompts"
+      | "events"
+      | "fileChanges"
+      | "pendingPermission"
+      | "queuePosition"
+      | "completedAt"
+    >
+  >,
   storage?: AgentSessionStorage | null,
 ): AgentSession => {
   const updatedSession = { ...session, ...updates };
@@ -0,0 +1,187 @@
+import type { AgentAttachment, DragRect } from "../types.js";
+import { ATTRIBUTE_NAME } from "./mount-root.js";
+
+const MAX_CAPTURE_PIXELS = 4_000_000;
+const MAX_CLONED_ELEMENTS = 5000;
+const SKIPPED_TAG_NAMES = new Set(["SCRIPT", "NOSCRIPT", "TEMPLATE", "IFRAME"]);
+
+const getCommonAncestor = (elements: Element[]): Element => {
+  let ancestor: Element | null = elements[0];
+  while (
+    ancestor &&
+    !elements.every((element) => ancestor?.contains(element))
+  ) {
+    ancestor = ancestor.parentElement;
+  }
+  return ancestor ?? document.documentElement;
+};
+
+const getUnionRect = (elements: Element[]): DragRect => {
+  const rects = elements.map((element) => element.getBoundingClientRect());
+  const left = Math.min(...rects.map((rect) => rect.left));
+  const top = Math.min(...rects.map((rect) => rect.top));
+  return {
+    x: left,
+    y: top,
+    width: Math.max(...rects.map((rect) => rect.right)) - left,
+    height: Math.max(...rects.map((rect) => rect.bottom)) - top,
+  };
+};
+
+const isIntersecting = (element: Element, rect: DragRect): boolean => {
+  const elementRect = element.getBoundingClientRect();
+  return (
+    elementRect.right >= rect.x &&
+    elementRect.left <= rect.x + rect.width &&
+    elementRect.bottom >= rect.y &&
+    elementRect.top <= rect.y + rect.height
+  );
+};
+
+const getInlineStyle = (element: Element): string => {
+  const computedStyle = window.getComputedStyle(element);
+  return Array.from(
+    computedStyle,
+    (property) => `${property}:${computedStyle.getPropertyValue(property)};`,
+  ).join("");
+};
+
+// NOTE: an SVG image can't load external resources, so pixels that are
+// already on the page are inlined as data URLs
+const getDataUrl = (element: Element): string | null => {
+  try {
+    if (element instanceof HTMLCanvasElement) return element.toDataURL();
+    if (element instanceof HTMLImageElement && element.complete) {
+      const canvas = document.createElement("canvas");
+      canvas.width = element.naturalWidth;
+      canvas.height = element.naturalHeight;
+      canvas.getContext("2d")?.drawImage(element, 0, 0);
+      return canvas.toDataURL();
+    }
+  } catch {}
+  return null;
+};
+
+const cloneElement = (
+  element: Element,
+  rect: DragRect,
+  budget: { remaining: number },
+): Element | null => {
+  if (
+    SKIPPED_TAG_NAMES.has(element.tagName) ||
+    element.hasAttribute(ATTRIBUTE_NAME) ||
+    --budget.remaining < 0
+  ) {
+    return null;
+  }
+
+  const dataUrl = getDataUrl(element);
+  const clone = dataUrl
+    ? Object.assign(document.createElement("img"), { src: dataUrl })
+    : element.cloneNode(false);
+  if (!(clone instanceof Element)) return null;
+
+  clone.setAttribute("style", getInlineStyle(element));
+  if (element instanceof HTMLInputElement) {
+    clone.setAttribute("value", element.value);
+  }
+
+  // NOTE: offscreen subtrees keep their computed size but drop their
+  // children, so large pages stay cheap to serialize
+  if (!dataUrl && !isIntersecting(element, rect)) {
+    (clone as HTMLElement).style.visibility = "hidden";
+    return clone;
+  }
+
+  for (const child of Array.from(element.childNodes)) {
+    const childClone =
+      child instanceof Element
+        ? cloneElement(child, rect, budget)
+        : child.nodeType === Node.TEXT_NODE
+          ? child.cloneNode(false)
+          : null;
+    if (childClone) clone.appendChild(childClone);
+  }
+
+  return clone;
+};
+
+const loadImage = async (source: string): Promise<HTMLImageElement> => {
+  const image = new Image();
+  image.src = source;
+  await image.decode();
+  return image;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob | null> =>
+  new Promise((resolve) => canvas.toBlob(resolve, "image/png"));
+
+// NOTE: renders a styled clone through an SVG foreignObject, so no extension
+// or screen capture permission is needed. Returns null when the page can't be
+// rasterized (tainted canvas, oversized subtree, unsupported browser)
+export const captureScreenshot = async (
+  elements: Element[],
+  captureRect?: DragRect,
+): Promise<Blob | null> => {
+  if (elements.length === 0) return null;
+
+  const rect = captureRect ?? getUnionRect(elements);
+  if (rect.width < 1 || rect.height < 1) return null;
+
+  try {
+    const root = getCommonAncestor(elements);
+    const rootRect = root.getBoundingClientRect();
+    const budget = { remaining: MAX_CLONED_ELEMENTS };
+    const clone = cloneElement(root, rect, budget);
+    if (!(clone instanceof HTMLElement) || budget.remaining < 0) return null;
+
+    clone.style.margin = "0";
+    clone.style.inset = "auto";
+    clone.style.transform = "none";
+
+    const width = Math.ceil(rootRect.width);
+    const height = Math.ceil(rootRect.height);
+    const markup = new XMLSerializer().serializeToString(clone);
+    const image = await loadImage(
+      `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><foreignObject width="100%" height="100%">${markup}</foreignObject></svg>`,
+      )}`,
+    );
+
+    const scale = Math.min(
+      window.devicePixelRatio || 1,
+      Math.sqrt(MAX_CAPTURE_PIXELS / (rect.width * rect.height)),
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(rect.width * scale);
+    canvas.height = Math.ceil(rect.height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+
+    context.scale(scale, scale);
+    context.drawImage(image, rootRect.left - rect.x, rootRect.top - rect.y);
+    return await canvasToBlob(canvas);
+  } catch {
+    return null;
+  }
+};
+
+export const createImageAttachment = (
+  blob: Blob,
+  name?: string,
+): Promise<AgentAttachment> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = typeof reader.result === "string" ? reader.result : "";
+      resolve({
+        type: "image",
+        mediaType: "image/png",
+        data: dataUrl.slice(dataUrl.indexOf(",") + 1),
+        name,
+      });
+    };
+    reader.onerror = () =>
+      reject(reader.error ?? new Error("Failed to read screenshot"));
+    reader.readAsDataURL(blob);
+  });
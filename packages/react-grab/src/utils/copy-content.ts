@@ -1,3 +1,6 @@
+import { CLIPBOARD_PAYLOAD_MIME_TYPE } from "../constants.js";
+import type { ReactGrabClipboardPayload } from "../types.js";
+
 const waitForFocus = (): Promise<void> => {
   if (document.hasFocus()) {
     return new Promise((resolve) => setTimeout(resolve, 50));
@@ -12,13 +15,89 @@ const waitForFocus = (): Promise<void> => {
   });
 };
 
+export interface ClipboardRepresentations {
+  html?: string;
+  payload?: ReactGrabClipboardPayload;
+  image?: Blob | null;
+}
+
+const getClipboardBlobs = (
+  content: string,
+  representations: ClipboardRepresentations,
+): Record<string, Blob> => {
+  const blobs: Record<string, Blob> = {
+    "text/plain": new Blob([content], { type: "text/plain" }),
+  };
+  if (representations.html) {
+    blobs["text/html"] = new Blob([representations.html], {
+      type: "text/html",
+    });
+  }
+  if (representations.image) {
+    blobs[representations.image.type || "image/png"] = representations.image;
+  }
+  if (representations.payload) {
+    blobs[CLIPBOARD_PAYLOAD_MIME_TYPE] = new Blob(
+      [JSON.stringify(representations.payload)],
+      { type: CLIPBOARD_PAYLOAD_MIME_TYPE },
+    );
+  }
+  return blobs;
+};
+
+const writeClipboardBlobs = async (
+  blobs: Record<string, Blob>,
+): Promise<boolean> => {
+  try {
+    await navigator.clipboard.write([new ClipboardItem(blobs)]);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// NOTE: custom "web " formats are Chromium only and other browsers reject the
+// whole item, so the write is retried with the standard types before falling
+// back to plain text
+const copyRichContent = async (
+  content: string,
+  representations: ClipboardRepresentations,
+): Promise<boolean> => {
+  if (typeof ClipboardItem === "undefined" || !navigator.clipboard?.write) {
+    return false;
+  }
+
+  const blobs = getClipboardBlobs(content, representations);
+  if (await writeClipboardBlobs(blobs)) return true;
+
+  const standardBlobs = Object.fromEntries(
+    Object.entries(blobs).filter(([type]) => !type.startsWith("web ")),
+  );
+  return (
+    Object.keys(standardBlobs).length < Object.keys(blobs).length &&
+    writeClipboardBlobs(standardBlobs)
+  );
+};
+
 export const copyContent = async (
   content: string,
   onSuccess?: () => void,
+  representations: ClipboardRepresentations = {},
 ): Promise<boolean> => {
   await waitForFocus();
 
   try {
+    const hasRichRepresentations = Boolean(
+      representations.html || representations.payload || representations.image,
+    );
+    if (
+      hasRichRepresentations &&
+      (await copyRichContent(content, representations))
+    ) {
+      onSuccess?.();
+      return true;
+    }
+
     try {
       await navigator.clipboard.writeText(content);
       onSuccess?.();
@@ -0,0 +1,31 @@
+import type { OverlayBounds } from "../types.js";
+import { createElementBounds } from "./create-element-bounds.js";
+
+export const createElementsBounds = (elements: Element[]): OverlayBounds => {
+  if (elements.length === 1) return createElementBounds(elements[0]);
+
+  let left = Infinity;
+  let top = Infinity;
+  let right = -Infinity;
+  let bottom = -Infinity;
+
+  for (const element of elements) {
+    const boundingRect = element.getBoundingClientRect();
+    if (boundingRect.width === 0 && boundingRect.height === 0) continue;
+    left = Math.min(left, boundingRect.left);
+    top = Math.min(top, boundingRect.top);
+    right = Math.max(right, boundingRect.right);
+    bottom = Math.max(bottom, boundingRect.bottom);
+  }
+
+  if (left === Infinity) return createElementBounds(elements[0]);
+
+  return {
+    borderRadius: "0px",
+    height: bottom - top,
+    transform: "none",
+    width: right - left,
+    x: left,
+    y: top,
+  };
+};
@@ -0,0 +1,218 @@
+import { isSourceFile, normalizeFileName } from "bippy/source";
+import {
+  getDisplayName,
+  getFiberFromHostInstance,
+  isCompositeFiber,
+  type Fiber,
+} from "bippy";
+import { checkIsSourceComponentName, getStack } from "../context.js";
+import type { ElementFingerprint, OverlayBounds } from "../types.js";
+
+const MAX_COMPONENT_PATH_LENGTH = 8;
+const MAX_HASHED_TEXT_LENGTH = 500;
+const MAX_CANDIDATES = 2000;
+const MAX_SOURCE_CANDIDATES = 3;
+const MIN_MATCH_SCORE = 4;
+const NEARBY_DISTANCE_PX = 200;
+const STABLE_ATTRIBUTE_NAMES = ["data-testid", "data-test-id", "data-cy"];
+
+// NOTE: ids that look generated (React useId, digits) change between renders,
+// so they are skipped when building the CSS path
+const isStableId = (id: string): boolean =>
+  Boolean(id) && !id.includes(":") && !/\d{3,}/.test(id);
+
+const getSelectorSegment = (element: Element): string => {
+  const tagName = element.tagName.toLowerCase();
+  if (isStableId(element.id)) return `#${CSS.escape(element.id)}`;
+
+  for (const attributeName of STABLE_ATTRIBUTE_NAMES) {
+    const value = element.getAttribute(attributeName);
+    if (value) return `${tagName}[${attributeName}="${CSS.escape(value)}"]`;
+  }
+
+  const parent = element.parentElement;
+  if (!parent) return tagName;
+
+  const sameTagSiblings = Array.from(parent.children).filter(
+    (sibling) => sibling.tagName === element.tagName,
+  );
+  return sameTagSiblings.length > 1
+    ? `${tagName}:nth-of-type(${sameTagSiblings.indexOf(element) + 1})`
+    : tagName;
+};
+
+export const getCssPath = (element: Element): string => {
+  const segments: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.documentElement) {
+    const segment = getSelectorSegment(current);
+    segments.unshift(segment);
+    if (segment.startsWith("#")) break;
+    current = current.parentElement;
+  }
+
+  return segments.join(" > ");
+};
+
+const getFiberKeySuffix = (fiber: Fiber): string =>
+  fiber.key === null || fiber.key === undefined ? "" : `[key=${fiber.key}]`;
+
+export const getComponentPath = (element: Element): string[] => {
+  const componentPath: string[] = [];
+
+  try {
+    let fiber: Fiber | null = getFiberFromHostInstance(element);
+    while (fiber && componentPath.length < MAX_COMPONENT_PATH_LENGTH) {
+      if (isCompositeFiber(fiber)) {
+        const name = getDisplayName(fiber.type);
+        if (name && checkIsSourceComponentName(name)) {
+          componentPath.unshift(`${name}${getFiberKeySuffix(fiber)}`);
+        }
+      }
+      fiber = fiber.return;
+    }
+  } catch {}
+
+  return componentPath;
+};
+
+const normalizeText = (element: Element): string =>
+  (element.textContent ?? "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_HASHED_TEXT_LENGTH);
+
+// NOTE: FNV-1a keeps the hash short enough to persist with every session
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+const getSourceLocation = async (
+  element: Element,
+): Promise<{ filePath: string; lineNumber?: number } | null> => {
+  const stack = await getStack(element).catch(() => null);
+  const sourceFrame = stack?.find(
+    (frame) => frame.source && isSourceFile(frame.source.fileName),
+  );
+  if (!sourceFrame?.source) return null;
+
+  return {
+    filePath: normalizeFileName(sourceFrame.source.fileName),
+    lineNumber: sourceFrame.source.lineNumber ?? undefined,
+  };
+};
+
+export const createElementFingerprint = async (
+  element: Element,
+): Promise<ElementFingerprint> => {
+  const sourceLocation = await getSourceLocation(element);
+  const text = normalizeText(element);
+
+  return {
+    tagName: element.tagName.toLowerCase(),
+    cssPath: getCssPath(element),
+    componentPath: getComponentPath(element),
+    filePath: sourceLocation?.filePath,
+    lineNumber: sourceLocation?.lineNumber,
+    textHash: text ? hashText(text) : undefined,
+  };
+};
+
+const getComponentPathScore = (
+  expectedPath: string[],
+  candidatePath: string[],
+): number => {
+  if (expectedPath.length === 0 || candidatePath.length === 0) return 0;
+  if (expectedPath.join("/") === candidatePath.join("/")) return 3;
+  return expectedPath.at(-1) === candidatePath.at(-1) ? 1 : 0;
+};
+
+const getProximityScore = (
+  element: Element,
+  previousBounds: OverlayBounds | undefined,
+): number => {
+  if (!previousBounds) return 0;
+
+  const rect = element.getBoundingClientRect();
+  const distance = Math.hypot(
+    rect.x + rect.width / 2 - (previousBounds.x + previousBounds.width / 2),
+    rect.y + rect.height / 2 - (previousBounds.y + previousBounds.height / 2),
+  );
+  return distance < NEARBY_DISTANCE_PX ? 1 : 0;
+};
+
+const scoreCandidate = (
+  candidate: Element,
+  fingerprint: ElementFingerprint,
+  previousBounds: OverlayBounds | undefined,
+): number => {
+  let score = 0;
+  if (getCssPath(candidate) === fingerprint.cssPath) score += 4;
+  score += getComponentPathScore(
+    fingerprint.componentPath,
+    getComponentPath(candidate),
+  );
+
+  if (fingerprint.textHash) {
+    const text = normalizeText(candidate);
+    if (text && hashText(text) === fingerprint.textHash) score += 3;
+  }
+
+  return score + getProximityScore(candidate, previousBounds);
+};
+
+const getSourceScore = async (
+  candidate: Element,
+  fingerprint: ElementFingerprint,
+): Promise<number> => {
+  if (!fingerprint.filePath) return 0;
+
+  const sourceLocation = await getSourceLocation(candidate);
+  if (sourceLocation?.filePath !== fingerprint.filePath) return 0;
+  return sourceLocation.lineNumber === fingerprint.lineNumber ? 2 : 1;
+};
+
+// NOTE: no single signal survives every edit (the agent may change the text,
+// the markup or the line), so candidates are scored on all of them and the
+// best one above the threshold wins
+export const findElementByFingerprint = async (
+  fingerprint: ElementFingerprint,
+  previousBounds?: OverlayBounds,
+): Promise<Element | null> => {
+  const candidates = Array.from(
+    document.getElementsByTagName(fingerprint.tagName),
+  ).slice(0, MAX_CANDIDATES);
+
+  const rankedCandidates = candidates
+    .map((candidate) => ({
+      candidate,
+      score: scoreCandidate(candidate, fingerprint, previousBounds),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SOURCE_CANDIDATES);
+
+  const scoredCandidates = await Promise.all(
+    rankedCandidates.map(async ({ candidate, score }) => ({
+      candidate,
+      score: score + (await getSourceScore(candidate, fingerprint)),
+    })),
+  );
+
+  const bestCandidate = scoredCandidates.reduce<
+    (typeof scoredCandidates)[number] | null
+  >(
+    (best, current) => (!best || current.score > best.score ? current : best),
+    null,
+  );
+
+  return bestCandidate && bestCandidate.score >= MIN_MATCH_SCORE
+    ? bestCandidate.candidate
+    : null;
+};
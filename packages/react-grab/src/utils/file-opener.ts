@@ -0,0 +1,104 @@
+import { OPEN_FILE_PROBE_TIMEOUT_MS } from "../constants.js";
+import { buildOpenFileUrl } from "./build-open-file-url.js";
+
+const fetchWithTimeout = async (
+  url: string,
+  init: RequestInit = {},
+): Promise<Response> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(
+    () => controller.abort(),
+    OPEN_FILE_PROBE_TIMEOUT_MS,
+  );
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+const isServerReachable = async (serverUrl: string): Promise<boolean> => {
+  try {
+    const response = await fetchWithTimeout(`${serverUrl}/health`);
+    return response.ok;
+  } catch {
+    return false;
+  }
+};
+
+export const createFileOpener = (serverUrls: string[]) => {
+  let localServerUrl: string | null = null;
+  let probePromise: Promise<string | null> | null = null;
+
+  const probe = (): Promise<string | null> => {
+    if (!probePromise) {
+      probePromise = (async () => {
+        for (const serverUrl of serverUrls) {
+          if (await isServerReachable(serverUrl)) return serverUrl;
+        }
+        return null;
+      })().then((serverUrl) => {
+        localServerUrl = serverUrl;
+        probePromise = null;
+        return serverUrl;
+      });
+    }
+    return probePromise;
+  };
+
+  const openInLocalEditor = async (
+    serverUrl: string,
+    filePath: string,
+    lineNumber?: number,
+    columnNumber?: number,
+  ): Promise<void> => {
+    try {
+      const response = await fetchWithTimeout(`${serverUrl}/open-file`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ filePath, lineNumber, columnNumber }),
+      });
+      if (!response.ok) {
+        const { error } = (await response.json().catch(() => ({}))) as {
+          error?: string;
+        };
+        console.warn(
+          `[React Grab] Could not open ${filePath}: ${error ?? response.status}`,
+        );
+      }
+    } catch {
+      // NOTE: a popup opened here would be blocked without the user gesture,
+      // so the next press goes to whichever server the re-probe finds, or to
+      // react-grab.com when none is up
+      console.warn(
+        `[React Grab] Could not reach ${serverUrl} to open ${filePath}. Press again to retry.`,
+      );
+      localServerUrl = null;
+      void probe();
+    }
+  };
+
+  const open = (
+    filePath: string,
+    lineNumber?: number,
+    columnNumber?: number,
+  ): void => {
+    // NOTE: the local editor server is preferred so file paths never leave the
+    // machine; the hosted redirect is opened synchronously because popups
+    // opened after an await lose the user gesture and get blocked
+    if (localServerUrl) {
+      void openInLocalEditor(
+        localServerUrl,
+        filePath,
+        lineNumber,
+        columnNumber,
+      );
+      return;
+    }
+
+    window.open(buildOpenFileUrl(filePath, lineNumber), "_blank");
+    void probe();
+  };
+
+  return { probe, open };
+};
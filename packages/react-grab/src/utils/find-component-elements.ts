@@ -0,0 +1,109 @@
+import { getSource, normalizeFileName } from "bippy/source";
+import {
+  getDisplayName,
+  getFiberFromHostInstance,
+  isInstrumentationActive,
+  type Fiber,
+} from "bippy";
+import {
+  checkIsSourceComponentFiber,
+  getComponentElements,
+} from "../context.js";
+import type { ComponentTarget } from "../types.js";
+import { resolveSource } from "./resolve-source.js";
+
+const MAX_SCANNED_ELEMENTS = 5000;
+const MAX_MATCHED_COMPONENTS = 50;
+
+// NOTE: walks up from every host element instead of down from the roots, so
+// portals and separate React roots are covered without tracking root fibers
+const collectComponentFibers = (): Fiber[] => {
+  const visitedFibers = new Set<Fiber>();
+  const componentFibers: Fiber[] = [];
+  const elements = document.body.getElementsByTagName("*");
+  const elementCount = Math.min(elements.length, MAX_SCANNED_ELEMENTS);
+
+  for (let index = 0; index < elementCount; index++) {
+    let fiber: Fiber | null = getFiberFromHostInstance(elements[index]);
+    while (fiber && !visitedFibers.has(fiber)) {
+      visitedFibers.add(fiber);
+      if (fiber.alternate) visitedFibers.add(fiber.alternate);
+      if (checkIsSourceComponentFiber(fiber)) componentFibers.push(fiber);
+      fiber = fiber.return;
+    }
+  }
+
+  return componentFibers;
+};
+
+// NOTE: a fiber's own source is where it was rendered, so the file that
+// defines a component comes from the element it returns
+const getComponentFileName = async (
+  componentFiber: Fiber,
+): Promise<string | null> => {
+  if (!componentFiber.child) return null;
+
+  const source = await getSource(componentFiber.child).catch(() => null);
+  if (!source) return null;
+  return normalizeFileName((await resolveSource(source)).fileName);
+};
+
+const normalizePath = (fileName: string): string =>
+  fileName.replace(/\\/g, "/").replace(/^\.\//, "");
+
+const isSameFile = (sourceFileName: string, targetFileName: string) => {
+  const sourcePath = normalizePath(sourceFileName);
+  const targetPath = normalizePath(targetFileName);
+  return (
+    sourcePath === targetPath ||
+    sourcePath.endsWith(`/${targetPath}`) ||
+    targetPath.endsWith(`/${sourcePath}`)
+  );
+};
+
+const matchesTarget = async (
+  componentFiber: Fiber,
+  target: ComponentTarget,
+): Promise<boolean> => {
+  if (
+    target.componentName &&
+    getDisplayName(componentFiber.type) !== target.componentName
+  ) {
+    return false;
+  }
+  if (!target.fileName) return true;
+
+  const fileName = await getComponentFileName(componentFiber);
+  return Boolean(fileName && isSameFile(fileName, target.fileName));
+};
+
+export const findComponentElements = async (
+  target: ComponentTarget,
+): Promise<Element[]> => {
+  if (!target.componentName && !target.fileName) return [];
+  if (!isInstrumentationActive()) return [];
+
+  try {
+    const componentFibers = collectComponentFibers();
+    const matches = await Promise.all(
+      componentFibers.map((fiber) => matchesTarget(fiber, target)),
+    );
+    const elements = componentFibers
+      .filter((_, fiberIndex) => matches[fiberIndex])
+      .slice(0, MAX_MATCHED_COMPONENTS)
+      .flatMap(getComponentElements);
+    const uniqueElements = Array.from(new Set(elements));
+
+    // NOTE: components nested in a match (a file usually defines a few) are
+    // already covered by the outer box
+    return uniqueElements.filter(
+      (element) =>
+        !uniqueElements.some(
+          (otherElement) =>
+            otherElement !== element && otherElement.contains(element),
+        ),
+    );
+  } catch {
+    return [];
+  }
+};
@@ -1,24 +1,105 @@
-import { getElementContext } from "../context.js";
+import {
+  getComponentSnippetRecord,
+  getElementSnippetRecord,
+} from "../context.js";
+import { CLIPBOARD_PAYLOAD_VERSION } from "../constants.js";
+import type {
+  ComponentStateOptions,
+  ElementSnippetRecord,
+  ReactGrabClipboardPayload,
+  SnippetFormat,
+} from "../types.js";
+import {
+  formatSnippetAsHtml,
+  resolveSnippetFormatter,
+} from "./snippet-formatters.js";
 
-interface GenerateSnippetOptions {
+export interface GenerateSnippetOptions {
   maxLines?: number;
+  styleContext?: boolean;
+  componentState?: boolean | ComponentStateOptions;
+  format?: SnippetFormat;
+  prompt?: string;
+  numbered?: boolean;
+  componentName?: string;
 }
 
+export interface RichSnippet {
+  content: string;
+  html: string;
+  payload: ReactGrabClipboardPayload;
+}
+
+const collectSnippetRecords = async (
+  elements: Element[],
+  options: GenerateSnippetOptions,
+): Promise<ElementSnippetRecord[]> => {
+  const { numbered, componentName, ...recordOptions } = options;
+  // NOTE: with a component name, the elements are the rendered roots of one
+  // component instance and produce a single record
+  const elementRecordResults = await Promise.allSettled(
+    componentName && elements.length > 0
+      ? [
+          getComponentSnippetRecord(
+            { name: componentName, elements },
+            recordOptions,
+          ),
+        ]
+      : elements.map((element) =>
+          getElementSnippetRecord(element, recordOptions),
+        ),
+  );
+
+  const elementRecords: ElementSnippetRecord[] = [];
+  elementRecordResults.forEach((result, elementIndex) => {
+    if (result.status === "fulfilled") {
+      elementRecords.push(
+        numbered ? { ...result.value, index: elementIndex + 1 } : result.value,
+      );
+    }
+  });
+  return elementRecords;
+};
+
 export const generateSnippet = async (
   elements: Element[],
   options: GenerateSnippetOptions = {},
 ): Promise<string> => {
-  const elementSnippetResults = await Promise.allSettled(
-    elements.map((element) => getElementContext(element, options)),
-  );
+  const { format, prompt, ...recordOptions } = options;
+  const elementRecords = await collectSnippetRecords(elements, recordOptions);
 
-  const elementSnippets = elementSnippetResults
-    .map((result) => (result.status === "fulfilled" ? result.value : ""))
-    .filter((snippet) => snippet.trim());
-
-  if (elementSnippets.length === 0) {
+  if (elementRecords.length === 0) {
     return "";
   }
 
-  return elementSnippets.join("\n\n");
+  return resolveSnippetFormatter(format)({ elements: elementRecords, prompt });
+};
+
+// NOTE: the same records rendered for every clipboard representation, so the
+// plain text, HTML and structured payload never disagree
+export const generateRichSnippet = async (
+  elements: Element[],
+  options: GenerateSnippetOptions = {},
+): Promise<RichSnippet | null> => {
+  const { format, prompt, ...recordOptions } = options;
+  const elementRecords = await collectSnippetRecords(elements, recordOptions);
+
+  if (elementRecords.length === 0) {
+    return null;
+  }
+
+  const content = resolveSnippetFormatter(format)({
+    elements: elementRecords,
+    prompt,
+  });
+  return {
+    content,
+    html: formatSnippetAsHtml({ elements: elementRecords, prompt }),
+    payload: {
+      version: CLIPBOARD_PAYLOAD_VERSION,
+      content,
+      prompt,
+      elements: elementRecords,
+    },
+  };
 };
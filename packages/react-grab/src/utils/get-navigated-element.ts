@@ -0,0 +1,158 @@
+import {
+  getFiberFromHostInstance,
+  getNearestHostFiber,
+  traverseFiber,
+  type Fiber,
+} from "bippy";
+import { checkIsSourceComponentFiber } from "../context.js";
+import type { NavigationDirection } from "../types.js";
+import { isValidGrabbableElement } from "./is-valid-grabbable-element.js";
+
+const getDomParent = (element: Element): Element | null => {
+  let candidate = element.parentElement;
+  while (candidate && candidate !== document.documentElement) {
+    if (isValidGrabbableElement(candidate)) return candidate;
+    candidate = candidate.parentElement;
+  }
+  return null;
+};
+
+const getDomChild = (element: Element): Element | null => {
+  for (const child of Array.from(element.children)) {
+    if (isValidGrabbableElement(child)) return child;
+  }
+  return null;
+};
+
+const getDomSibling = (element: Element, isNext: boolean): Element | null => {
+  let candidate = isNext
+    ? element.nextElementSibling
+    : element.previousElementSibling;
+  while (candidate) {
+    if (isValidGrabbableElement(candidate)) return candidate;
+    candidate = isNext
+      ? candidate.nextElementSibling
+      : candidate.previousElementSibling;
+  }
+  return null;
+};
+
+const isSameFiber = (fiber: Fiber, otherFiber: Fiber): boolean =>
+  fiber === otherFiber || fiber.alternate === otherFiber;
+
+const getComponentHostElement = (fiber: Fiber): Element | null => {
+  const hostFiber = getNearestHostFiber(fiber);
+  const stateNode = hostFiber?.stateNode as unknown;
+  if (!(stateNode instanceof Element)) return null;
+  return isValidGrabbableElement(stateNode) ? stateNode : null;
+};
+
+const getOwnerComponentFiber = (fiber: Fiber | null): Fiber | null =>
+  fiber ? traverseFiber(fiber, checkIsSourceComponentFiber, true) : null;
+
+const collectChildComponentFibers = (
+  fiber: Fiber | null,
+  componentFibers: Fiber[],
+) => {
+  let currentFiber = fiber;
+  while (currentFiber) {
+    if (checkIsSourceComponentFiber(currentFiber)) {
+      componentFibers.push(currentFiber);
+    } else {
+      collectChildComponentFibers(currentFiber.child, componentFibers);
+    }
+    currentFiber = currentFiber.sibling;
+  }
+};
+
+const getComponentParent = (element: Element, fiber: Fiber): Element | null => {
+  let componentFiber = getOwnerComponentFiber(fiber);
+  while (componentFiber) {
+    const hostElement = getComponentHostElement(componentFiber);
+    if (
+      hostElement &&
+      hostElement !== element &&
+      hostElement.contains(element)
+    ) {
+      return hostElement;
+    }
+    componentFiber = getOwnerComponentFiber(componentFiber.return);
+  }
+  return null;
+};
+
+const getComponentChild = (element: Element, fiber: Fiber): Element | null => {
+  const componentFiber = traverseFiber(fiber.child, (node) => {
+    if (!checkIsSourceComponentFiber(node)) return false;
+    const hostElement = getComponentHostElement(node);
+    return Boolean(hostElement && hostElement !== element);
+  });
+  return componentFiber ? getComponentHostElement(componentFiber) : null;
+};
+
+const getComponentSibling = (
+  element: Element,
+  fiber: Fiber,
+  isNext: boolean,
+): Element | null => {
+  const ownerFiber = getOwnerComponentFiber(fiber);
+  if (!ownerFiber) return null;
+  const parentFiber = getOwnerComponentFiber(ownerFiber.return);
+  if (!parentFiber) return null;
+
+  const siblingFibers: Fiber[] = [];
+  collectChildComponentFibers(parentFiber.child, siblingFibers);
+
+  const ownerIndex = siblingFibers.findIndex((siblingFiber) =>
+    isSameFiber(siblingFiber, ownerFiber),
+  );
+  if (ownerIndex === -1) return null;
+
+  const step = isNext ? 1 : -1;
+  for (
+    let siblingIndex = ownerIndex + step;
+    siblingIndex >= 0 && siblingIndex < siblingFibers.length;
+    siblingIndex += step
+  ) {
+    const hostElement = getComponentHostElement(siblingFibers[siblingIndex]);
+    if (hostElement && hostElement !== element) return hostElement;
+  }
+  return null;
+};
+
+export const getNavigatedElement = (
+  element: Element,
+  direction: NavigationDirection,
+  isComponentStep = false,
+): Element | null => {
+  if (isComponentStep) {
+    const fiber = getFiberFromHostInstance(element);
+    if (!fiber) return null;
+
+    try {
+      switch (direction) {
+        case "parent":
+          return getComponentParent(element, fiber);
+        case "child":
+          return getComponentChild(element, fiber);
+        case "previous":
+          return getComponentSibling(element, fiber, false);
+        case "next":
+          return getComponentSibling(element, fiber, true);
+      }
+    } catch {
+      return null;
+    }
+  }
+
+  switch (direction) {
+    case "parent":
+      return getDomParent(element);
+    case "child":
+      return getDomChild(element);
+    case "previous":
+      return getDomSibling(element, false);
+    case "next":
+      return getDomSibling(element, true);
+  }
+};
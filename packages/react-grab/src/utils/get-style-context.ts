@@ -0,0 +1,210 @@
+import type {
+  BoxEdges,
+  ElementBoxModel,
+  ElementStyleContext,
+} from "../types.js";
+
+const DEFAULT_STYLE_FRAME_ATTRIBUTE = "data-react-grab-default-styles";
+
+const IGNORED_STYLE_PROPERTIES = new Set([
+  "width",
+  "height",
+  "block-size",
+  "inline-size",
+  "min-block-size",
+  "min-inline-size",
+  "perspective-origin",
+  "transform-origin",
+]);
+
+const CSS_VARIABLE_REFERENCE_PATTERN = /var\(\s*(--[\w-]+)/g;
+
+const defaultStylesCache = new Map<string, Record<string, string>>();
+
+const readStyleDeclaration = (
+  style: CSSStyleDeclaration,
+): Record<string, string> => {
+  const declaration: Record<string, string> = {};
+  for (let index = 0; index < style.length; index++) {
+    const property = style[index];
+    declaration[property] = style.getPropertyValue(property);
+  }
+  return declaration;
+};
+
+// NOTE: returns null when the baseline frame can't be created (no body yet,
+// sandboxed documents), so callers skip the diff instead of treating every
+// computed property as non-default
+const getDefaultStyles = (tagName: string): Record<string, string> | null => {
+  const cachedStyles = defaultStylesCache.get(tagName);
+  if (cachedStyles) return cachedStyles;
+
+  const frame = document.createElement("iframe");
+  frame.setAttribute(DEFAULT_STYLE_FRAME_ATTRIBUTE, "");
+  frame.setAttribute("aria-hidden", "true");
+  frame.tabIndex = -1;
+  frame.style.cssText =
+    "position:fixed;width:0;height:0;border:0;visibility:hidden;pointer-events:none;";
+  (document.body ?? document.documentElement).appendChild(frame);
+
+  try {
+    const frameDocument = frame.contentDocument;
+    const frameWindow = frame.contentWindow;
+    if (!frameDocument?.body || !frameWindow) return null;
+
+    const defaultElement = frameDocument.createElement(tagName);
+    frameDocument.body.appendChild(defaultElement);
+    const defaultStyles = readStyleDeclaration(
+      frameWindow.getComputedStyle(defaultElement),
+    );
+    if (Object.keys(defaultStyles).length === 0) return null;
+    defaultStylesCache.set(tagName, defaultStyles);
+    return defaultStyles;
+  } catch {
+    return null;
+  } finally {
+    frame.remove();
+  }
+};
+
+const parseBoxEdges = (
+  style: CSSStyleDeclaration,
+  prefix: string,
+  suffix = "",
+): BoxEdges => ({
+  top: parseFloat(style.getPropertyValue(`${prefix}-top${suffix}`)) || 0,
+  right: parseFloat(style.getPropertyValue(`${prefix}-right${suffix}`)) || 0,
+  bottom: parseFloat(style.getPropertyValue(`${prefix}-bottom${suffix}`)) || 0,
+  left: parseFloat(style.getPropertyValue(`${prefix}-left${suffix}`)) || 0,
+});
+
+const getBoxModel = (
+  element: Element,
+  style: CSSStyleDeclaration,
+): ElementBoxModel => {
+  const rect = element.getBoundingClientRect();
+  return {
+    width: rect.width,
+    height: rect.height,
+    boxSizing: style.boxSizing,
+    margin: parseBoxEdges(style, "margin"),
+    padding: parseBoxEdges(style, "padding"),
+    border: parseBoxEdges(style, "border", "-width"),
+  };
+};
+
+const safelyMatches = (element: Element, selectorText: string): boolean => {
+  try {
+    return element.matches(selectorText);
+  } catch {
+    return false;
+  }
+};
+
+const getRuleChildren = (rule: CSSRule): CSSRule[] => {
+  if (!("cssRules" in rule)) return [];
+  return Array.from((rule as CSSGroupingRule).cssRules);
+};
+
+const collectMatchedRules = (
+  element: Element,
+  rules: CSSRule[],
+  mediaConditions: string[],
+  onMatch: (rule: CSSStyleRule, mediaConditions: string[]) => void,
+) => {
+  for (const rule of rules) {
+    if (rule instanceof CSSMediaRule) {
+      if (!window.matchMedia(rule.media.mediaText).matches) continue;
+      collectMatchedRules(
+        element,
+        getRuleChildren(rule),
+        [...mediaConditions, rule.media.mediaText],
+        onMatch,
+      );
+      continue;
+    }
+
+    if (rule instanceof CSSStyleRule) {
+      if (safelyMatches(element, rule.selectorText)) {
+        onMatch(rule, mediaConditions);
+      }
+    }
+
+    collectMatchedRules(
+      element,
+      getRuleChildren(rule),
+      mediaConditions,
+      onMatch,
+    );
+  }
+};
+
+const getStyleSheetRules = (styleSheet: CSSStyleSheet): CSSRule[] => {
+  try {
+    return Array.from(styleSheet.cssRules);
+  } catch {
+    // HACK: cross-origin stylesheets throw when reading cssRules
+    return [];
+  }
+};
+
+export const getStyleContext = (element: Element): ElementStyleContext => {
+  const computedStyle = window.getComputedStyle(element);
+  const computedStyles = readStyleDeclaration(computedStyle);
+  const defaultStyles = getDefaultStyles(element.tagName.toLowerCase());
+
+  const nonDefaultStyles: Record<string, string> = {};
+  if (defaultStyles) {
+    for (const [property, value] of Object.entries(computedStyles)) {
+      if (property.startsWith("-") || IGNORED_STYLE_PROPERTIES.has(property)) {
+        continue;
+      }
+      if (defaultStyles[property] !== value) {
+        nonDefaultStyles[property] = value;
+      }
+    }
+  }
+
+  const variableNames = new Set<string>();
+  const mediaQueries = new Set<string>();
+  const styleSheets = [
+    ...Array.from(document.styleSheets),
+    ...(document.adoptedStyleSheets ?? []),
+  ];
+
+  for (const styleSheet of styleSheets) {
+    collectMatchedRules(
+      element,
+      getStyleSheetRules(styleSheet),
+      [],
+      (rule, mediaConditions) => {
+        for (const mediaCondition of mediaConditions) {
+          mediaQueries.add(mediaCondition);
+        }
+        for (let index = 0; index < rule.style.length; index++) {
+          const property = rule.style[index];
+          if (property.startsWith("--")) variableNames.add(property);
+        }
+        for (const match of rule.style.cssText.matchAll(
+          CSS_VARIABLE_REFERENCE_PATTERN,
+        )) {
+          variableNames.add(match[1]);
+        }
+      },
+    );
+  }
+
+  const cssVariables: Record<string, string> = {};
+  for (const variableName of variableNames) {
+    const value = computedStyle.getPropertyValue(variableName).trim();
+    if (value) cssVariables[variableName] = value;
+  }
+
+  return {
+    classList: Array.from(element.classList),
+    computedStyles: nonDefaultStyles,
+    boxModel: getBoxModel(element, computedStyle),
+    cssVariables,
+    mediaQueries: Array.from(mediaQueries),
+  };
+};
@@ -0,0 +1,76 @@
+import type { AgentSessionStorage, GrabHistoryItem } from "../types.js";
+
+const STORAGE_KEY = "react-grab:grab-history";
+
+const generateHistoryItemId = (): string =>
+  `grab-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+export const createHistoryItem = (
+  item: Omit<GrabHistoryItem, "id" | "createdAt">,
+): GrabHistoryItem => ({
+  ...item,
+  id: generateHistoryItemId(),
+  createdAt: Date.now(),
+});
+
+export const getDefaultHistoryStorage = (): AgentSessionStorage | null => {
+  try {
+    return window.sessionStorage;
+  } catch {
+    return null;
+  }
+};
+
+let memoryHistory: GrabHistoryItem[] = [];
+
+export const saveHistory = (
+  items: GrabHistoryItem[],
+  storage?: AgentSessionStorage | null,
+): void => {
+  if (!storage) {
+    memoryHistory = [...items];
+    return;
+  }
+
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(items));
+  } catch {
+    memoryHistory = [...items];
+  }
+};
+
+export const loadHistory = (
+  storage?: AgentSessionStorage | null,
+): GrabHistoryItem[] => {
+  if (!storage) {
+    return [...memoryHistory];
+  }
+
+  try {
+    const data = storage.getItem(STORAGE_KEY);
+    if (!data) return [];
+    const items = JSON.parse(data) as unknown;
+    return Array.isArray(items) ? (items as GrabHistoryItem[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const addHistoryItem = (
+  item: GrabHistoryItem,
+  maxItems: number,
+  storage?: AgentSessionStorage | null,
+): GrabHistoryItem[] => {
+  const items = [item, ...loadHistory(storage)].slice(0, maxItems);
+  saveHistory(items, storage);
+  return items;
+};
+
+export const clearHistory = (storage?: AgentSessionStorage | null): void => {
+  memoryHistory = [];
+  if (!storage) return;
+
+  try {
+    storage.removeItem(STORAGE_KEY);
+  } catch {}
+};
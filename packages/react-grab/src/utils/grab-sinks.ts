@@ -0,0 +1,210 @@
+import {
+  CLIPBOARD_PAYLOAD_VERSION,
+  DEFAULT_GRAB_RECEIVER_URL,
+  DEFAULT_GRAB_RECEIVER_WEBSOCKET_URL,
+} from "../constants.js";
+import type {
+  AgentAttachment,
+  AgentEvent,
+  AgentProvider,
+  Grab,
+  GrabSink,
+} from "../types.js";
+import { getAgentErrorCode, normalizeAgentEvent } from "./agent-event.js";
+import { copyContent } from "./copy-content.js";
+import type { RichSnippet } from "./generate-snippet.js";
+
+export interface HttpSinkOptions {
+  url?: string;
+  headers?: Record<string, string>;
+}
+
+export interface WebSocketSinkOptions {
+  url?: string;
+}
+
+export interface AgentSinkOptions {
+  provider: AgentProvider;
+  getOptions?: () => unknown;
+  onEvent?: (event: AgentEvent, grab: Grab) => void;
+}
+
+const generateGrabId = (): string =>
+  `grab-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+export const createGrab = (
+  snippet: RichSnippet,
+  attachments?: AgentAttachment[],
+): Grab => ({
+  id: generateGrabId(),
+  content: snippet.content,
+  html: snippet.html,
+  prompt: snippet.payload.prompt,
+  elements: snippet.payload.elements,
+  url: window.location.href,
+  createdAt: Date.now(),
+  attachments,
+});
+
+// NOTE: sinks run side by side, so one unreachable receiver doesn't hold up
+// (or fail) the others
+export const deliverGrab = async (
+  sinks: GrabSink[],
+  grab: Grab,
+  onError?: (error: Error, sink: GrabSink) => void,
+): Promise<boolean> => {
+  const results = await Promise.allSettled(
+    sinks.map(async (sink) => sink.send(grab)),
+  );
+
+  results.forEach((result, sinkIndex) => {
+    if (result.status === "rejected") {
+      onError?.(
+        result.reason instanceof Error
+          ? result.reason
+          : new Error(String(result.reason)),
+        sinks[sinkIndex],
+      );
+    }
+  });
+
+  return results.some((result) => result.status === "fulfilled");
+};
+
+const attachmentToBlob = (attachment: AgentAttachment): Blob =>
+  new Blob(
+    [Uint8Array.from(atob(attachment.data), (char) => char.charCodeAt(0))],
+    { type: attachment.mediaType },
+  );
+
+export const createClipboardSink = (): GrabSink => ({
+  name: "clipboard",
+  send: async (grab) => {
+    const screenshot = grab.attachments?.find(
+      (attachment) => attachment.type === "image",
+    );
+    const didCopy = await copyContent(grab.content, undefined, {
+      html: grab.html,
+      payload: {
+        version: CLIPBOARD_PAYLOAD_VERSION,
+        content: grab.content,
+        prompt: grab.prompt,
+        elements: grab.elements,
+      },
+      image: screenshot ? attachmentToBlob(screenshot) : null,
+    });
+    if (!didCopy) throw new Error("Failed to copy to clipboard");
+  },
+});
+
+export const createHttpSink = ({
+  url = DEFAULT_GRAB_RECEIVER_URL,
+  headers,
+}: HttpSinkOptions = {}): GrabSink => ({
+  name: "http",
+  send: async (grab) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(grab),
+    });
+    if (!response.ok) {
+      throw new Error(`Grab receiver responded with ${response.status}`);
+    }
+  },
+});
+
+// NOTE: the socket opens on the first grab and is reopened after it drops,
+// so a receiver started later is still picked up
+export const createWebSocketSink = ({
+  url = DEFAULT_GRAB_RECEIVER_WEBSOCKET_URL,
+}: WebSocketSinkOptions = {}): GrabSink => {
+  let socket: WebSocket | null = null;
+  let pendingSocket: Promise<WebSocket> | null = null;
+
+  const connect = (): Promise<WebSocket> => {
+    if (socket?.readyState === WebSocket.OPEN) return Promise.resolve(socket);
+    if (pendingSocket) return pendingSocket;
+
+    pendingSocket = new Promise<WebSocket>((resolve, reject) => {
+      const nextSocket = new WebSocket(url);
+      nextSocket.addEventListener("open", () => {
+        socket = nextSocket;
+        pendingSocket = null;
+        resolve(nextSocket);
+      });
+      nextSocket.addEventListener("error", () => {
+        pendingSocket = null;
+        reject(new Error(`Could not connect to ${url}`));
+      });
+      nextSocket.addEventListener("close", () => {
+        if (socket === nextSocket) socket = null;
+      });
+    });
+    return pendingSocket;
+  };
+
+  return {
+    name: "websocket",
+    send: async (grab) => {
+      const openSocket = await connect();
+      openSocket.send(JSON.stringify({ type: "grab", grab }));
+    },
+    dispose: () => {
+      socket?.close();
+      socket = null;
+    },
+  };
+};
+
+// NOTE: runs the grab through an agent provider without the overlay's session
+// UI; delivery succeeds once the run starts and progress goes to onEvent
+export const createAgentSink = ({
+  provider,
+  getOptions,
+  onEvent,
+}: AgentSinkOptions): GrabSink => {
+  const abortControllers = new Set<AbortController>();
+
+  const runAgent = async (grab: Grab, abortController: AbortController) => {
+    try {
+      const updates = provider.send(
+        {
+          content: grab.content,
+          prompt: grab.prompt ?? "",
+          options: getOptions?.(),
+          attachments: grab.attachments,
+        },
+        abortController.signal,
+      );
+      for await (const update of updates) {
+        onEvent?.(normalizeAgentEvent(update), grab);
+      }
+    } catch (error) {
+      if (abortController.signal.aborted) return;
+      onEvent?.(
+        {
+          type: "error",
+          message: error instanceof Error ? error.message : "Unknown error",
+          code: getAgentErrorCode(error),
+        },
+        grab,
+      );
+    } finally {
+      abortControllers.delete(abortController);
+    }
+  };
+
+  return {
+    name: "agent",
+    send: (grab) => {
+      const abortController = new AbortController();
+      abortControllers.add(abortController);
+      void runAgent(grab, abortController);
+    },
+    dispose: () => {
+      abortControllers.forEach((abortController) => abortController.abort());
+      abortControllers.clear();
+    },
+  };
+};
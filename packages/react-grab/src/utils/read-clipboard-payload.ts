@@ -0,0 +1,32 @@
+import {
+  CLIPBOARD_PAYLOAD_MIME_TYPE,
+  CLIPBOARD_PAYLOAD_VERSION,
+} from "../constants.js";
+import type { ReactGrabClipboardPayload } from "../types.js";
+
+const isClipboardPayload = (
+  value: unknown,
+): value is ReactGrabClipboardPayload =>
+  typeof value === "object" &&
+  value !== null &&
+  (value as ReactGrabClipboardPayload).version === CLIPBOARD_PAYLOAD_VERSION &&
+  Array.isArray((value as ReactGrabClipboardPayload).elements);
+
+// NOTE: returns null when the clipboard holds something else, when the browser
+// doesn't expose custom formats or when the page lacks read permission
+export const readClipboardPayload =
+  async (): Promise<ReactGrabClipboardPayload | null> => {
+    try {
+      const clipboardItems = await navigator.clipboard.read();
+      const payloadItem = clipboardItems.find((item) =>
+        item.types.includes(CLIPBOARD_PAYLOAD_MIME_TYPE),
+      );
+      if (!payloadItem) return null;
+
+      const blob = await payloadItem.getType(CLIPBOARD_PAYLOAD_MIME_TYPE);
+      const payload: unknown = JSON.parse(await blob.text());
+      return isClipboardPayload(payload) ? payload : null;
+    } catch {
+      return null;
+    }
+  };
@@ -0,0 +1,229 @@
+import {
+  getSourceFromSourceMap,
+  type FiberSource,
+  type SourceMap,
+} from "bippy/source";
+
+interface RawSourceMap {
+  mappings?: string;
+  sources?: string[];
+  sourceRoot?: string;
+  sections?: unknown[];
+}
+
+interface ResolvedSourceMap {
+  sourceMap: SourceMap;
+  sourceMapUrl: string;
+}
+
+const BASE64_CHARS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const SOURCE_MAPPING_URL_PATTERN =
+  /\/[/*][#@]\s*sourceMappingURL=([^\s'"*]+)\s*(?:\*\/)?\s*$/;
+
+const sourceMapCache = new Map<string, Promise<ResolvedSourceMap | null>>();
+
+const decodeVlqSegment = (segment: string): number[] => {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_CHARS.indexOf(char);
+    if (digit === -1) return [];
+    value += (digit & 31) << shift;
+
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      const isNegative = value & 1;
+      value >>>= 1;
+      values.push(isNegative ? -value : value);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+};
+
+export const decodeMappings = (mappings: string): SourceMap["mappings"] => {
+  const decodedLines: SourceMap["mappings"] = [];
+  let sourceIndex = 0;
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  let nameIndex = 0;
+
+  for (const line of mappings.split(";")) {
+    const decodedSegments: SourceMap["mappings"][number] = [];
+    let generatedColumn = 0;
+
+    for (const segment of line.split(",")) {
+      if (!segment) continue;
+      const values = decodeVlqSegment(segment);
+      if (values.length === 0) continue;
+
+      generatedColumn += values[0];
+      if (values.length < 4) {
+        decodedSegments.push([generatedColumn]);
+        continue;
+      }
+
+      sourceIndex += values[1];
+      sourceLine += values[2];
+      sourceColumn += values[3];
+      if (values.length < 5) {
+        decodedSegments.push([
+          generatedColumn,
+          sourceIndex,
+          sourceLine,
+          sourceColumn,
+        ]);
+        continue;
+      }
+
+      nameIndex += values[4];
+      decodedSegments.push([
+        generatedColumn,
+        sourceIndex,
+        sourceLine,
+        sourceColumn,
+        nameIndex,
+      ]);
+    }
+
+    decodedLines.push(decodedSegments);
+  }
+
+  return decodedLines;
+};
+
+const decodeDataUrl = (dataUrl: string): string => {
+  const separatorIndex = dataUrl.indexOf(",");
+  const metadata = dataUrl.slice(0, separatorIndex);
+  const payload = dataUrl.slice(separatorIndex + 1);
+
+  if (!metadata.endsWith(";base64")) {
+    return decodeURIComponent(payload);
+  }
+
+  const binary = atob(payload);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+const getSourceMappingUrl = (code: string): string | null => {
+  // NOTE: only the trailing comment counts, earlier ones belong to inlined code
+  const lines = code.trimEnd().split("\n");
+  for (let index = lines.length - 1; index >= 0; index--) {
+    const match = lines[index].match(SOURCE_MAPPING_URL_PATTERN);
+    if (match) return match[1];
+    if (lines[index].trim()) return null;
+  }
+  return null;
+};
+
+const fetchSourceMap = async (
+  bundleUrl: string,
+): Promise<ResolvedSourceMap | null> => {
+  try {
+    const code = await (await fetch(bundleUrl)).text();
+    const sourceMappingUrl = getSourceMappingUrl(code);
+    if (!sourceMappingUrl) return null;
+
+    // HACK: bippy only follows http(s) source maps, but Vite serves every
+    // module with an inline data: URL map, so those are decoded here
+    const isInline = sourceMappingUrl.startsWith("data:");
+    const sourceMapUrl = isInline
+      ? bundleUrl
+      : new URL(sourceMappingUrl, bundleUrl).href;
+    const rawSourceMap = JSON.parse(
+      isInline
+        ? decodeDataUrl(sourceMappingUrl)
+        : await (await fetch(sourceMapUrl)).text(),
+    ) as RawSourceMap;
+
+    if (rawSourceMap.sections || !rawSourceMap.mappings) return null;
+
+    return {
+      sourceMap: {
+        mappings: decodeMappings(rawSourceMap.mappings),
+        sources: rawSourceMap.sources ?? [],
+        sourceRoot: rawSourceMap.sourceRoot,
+        version: 3,
+      },
+      sourceMapUrl,
+    };
+  } catch {
+    return null;
+  }
+};
+
+const getSourceMap = (bundleUrl: string): Promise<ResolvedSourceMap | null> => {
+  let sourceMapPromise = sourceMapCache.get(bundleUrl);
+  if (!sourceMapPromise) {
+    sourceMapPromise = fetchSourceMap(bundleUrl);
+    sourceMapCache.set(bundleUrl, sourceMapPromise);
+  }
+  return sourceMapPromise;
+};
+
+const resolveSourceFileName = (
+  fileName: string,
+  sourceRoot: string | undefined,
+  sourceMapUrl: string,
+): string => {
+  const sourcePath = sourceRoot
+    ? `${sourceRoot.replace(/\/?$/, "/")}${fileName}`
+    : fileName;
+  if (/^[a-zA-Z][a-zA-Z\d+\-.]*:/.test(sourcePath)) return sourcePath;
+  if (sourcePath.startsWith("/") && !sourcePath.startsWith("//")) {
+    return sourcePath;
+  }
+
+  const resolvedUrl = new URL(sourcePath, sourceMapUrl);
+  return resolvedUrl.origin === new URL(sourceMapUrl).origin
+    ? resolvedUrl.pathname
+    : resolvedUrl.href;
+};
+
+export const isBundleUrlSource = (source: FiberSource): boolean =>
+  /^https?:\/\//.test(source.fileName);
+
+export const resolveSource = async (
+  source: FiberSource,
+): Promise<FiberSource> => {
+  if (
+    !isBundleUrlSource(source) ||
+    typeof source.lineNumber !== "number" ||
+    typeof source.columnNumber !== "number"
+  ) {
+    return source;
+  }
+
+  const resolvedSourceMap = await getSourceMap(source.fileName);
+  if (!resolvedSourceMap) return source;
+
+  const { sourceMap, sourceMapUrl } = resolvedSourceMap;
+  // NOTE: stack columns are 1-based while source map columns are 0-based
+  const originalSource = getSourceFromSourceMap(
+    sourceMap,
+    source.lineNumber,
+    source.columnNumber - 1,
+  );
+  if (!originalSource?.fileName) return source;
+
+  return {
+    ...source,
+    fileName: resolveSourceFileName(
+      originalSource.fileName,
+      sourceMap.sourceRoot,
+      sourceMapUrl,
+    ),
+    lineNumber: originalSource.lineNumber,
+    columnNumber:
+      originalSource.columnNumber !== undefined
+        ? originalSource.columnNumber + 1
+        : undefined,
+  };
+};
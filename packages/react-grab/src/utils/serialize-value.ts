@@ -0,0 +1,110 @@
+import { getDisplayName, isValidElement } from "bippy";
+
+const MAX_STRING_LENGTH = 200;
+const MAX_COLLECTION_ENTRIES = 20;
+
+const truncateString = (value: string): string =>
+  value.length > MAX_STRING_LENGTH
+    ? `${value.slice(0, MAX_STRING_LENGTH)}...`
+    : value;
+
+const serializeEntries = (
+  entries: Array<[string, unknown]>,
+  depth: number,
+  ancestors: object[],
+): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  for (const [key, entryValue] of entries.slice(0, MAX_COLLECTION_ENTRIES)) {
+    result[key] = serializeWithAncestors(entryValue, depth - 1, ancestors);
+  }
+  if (entries.length > MAX_COLLECTION_ENTRIES) {
+    result["..."] = `${entries.length - MAX_COLLECTION_ENTRIES} more`;
+  }
+  return result;
+};
+
+const serializeWithAncestors = (
+  value: unknown,
+  depth: number,
+  ancestors: object[],
+): unknown => {
+  if (value === null) return null;
+  if (value === undefined) return "[undefined]";
+
+  switch (typeof value) {
+    case "string":
+      return truncateString(value);
+    case "number":
+    case "boolean":
+      return value;
+    case "bigint":
+      return `${value}n`;
+    case "symbol":
+      return value.toString();
+    case "function":
+      return `[Function${value.name ? `: ${value.name}` : ""}]`;
+  }
+
+  const objectValue = value as object;
+
+  if (ancestors.includes(objectValue)) return "[Circular]";
+
+  if (isValidElement(objectValue)) {
+    const name = getDisplayName(objectValue.type) ?? "Unknown";
+    return `<${name} />`;
+  }
+
+  if (typeof Element !== "undefined" && objectValue instanceof Element) {
+    return `<${objectValue.tagName.toLowerCase()}>`;
+  }
+
+  if (objectValue instanceof Date) return objectValue.toISOString();
+  if (objectValue instanceof RegExp) return objectValue.toString();
+  if (objectValue instanceof Error) {
+    return `[${objectValue.name}: ${truncateString(objectValue.message)}]`;
+  }
+  if (objectValue instanceof Promise) return "[Promise]";
+
+  if (depth <= 0) {
+    if (Array.isArray(objectValue)) return `[Array(${objectValue.length})]`;
+    return `[${objectValue.constructor?.name ?? "Object"}]`;
+  }
+
+  const nextAncestors = [...ancestors, objectValue];
+
+  if (Array.isArray(objectValue)) {
+    const items = objectValue
+      .slice(0, MAX_COLLECTION_ENTRIES)
+      .map((item: unknown) =>
+        serializeWithAncestors(item, depth - 1, nextAncestors),
+      );
+    if (objectValue.length > MAX_COLLECTION_ENTRIES) {
+      items.push(`... ${objectValue.length - MAX_COLLECTION_ENTRIES} more`);
+    }
+    return items;
+  }
+
+  if (objectValue instanceof Map) {
+    return serializeEntries(
+      Array.from(objectValue.entries()).map(([key, entryValue]) => [
+        String(key),
+        entryValue,
+      ]),
+      depth,
+      nextAncestors,
+    );
+  }
+
+  if (objectValue instanceof Set) {
+    return serializeWithAncestors(
+      Array.from(objectValue.values()),
+      depth,
+      ancestors,
+    );
+  }
+
+  return serializeEntries(Object.entries(objectValue), depth, nextAncestors);
+};
+
+export const serializeValue = (value: unknown, maxDepth: number): unknown =>
+  serializeWithAncestors(value, maxDepth, []);
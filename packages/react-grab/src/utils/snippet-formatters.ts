@@ -0,0 +1,274 @@
+import { buildOpenFileUrl } from "./build-open-file-url.js";
+import type {
+  BoxEdges,
+  ComponentStateSnapshot,
+  ElementSnippetFrame,
+  ElementSnippetRecord,
+  ElementStyleContext,
+  SnippetFormat,
+  SnippetFormatter,
+  SnippetFormatterContext,
+} from "../types.js";
+
+const formatFrameLocation = (
+  fileName: string,
+  frame: ElementSnippetFrame,
+): string =>
+  frame.lineNumber !== null
+    ? `${fileName}:${frame.lineNumber}:${frame.columnNumber ?? 0}`
+    : fileName;
+
+const formatStackFrame = (frame: ElementSnippetFrame): string => {
+  if (frame.isServer) return `${frame.name} (Server)`;
+  if (!frame.fileName) return frame.name;
+  return `${frame.name} in ${formatFrameLocation(frame.fileName, frame)}`;
+};
+
+const withPrompt = (content: string, prompt?: string): string =>
+  prompt ? `${prompt}\n\n${content}` : content;
+
+const escapeMarkup = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+const formatComponentState = (snapshot: ComponentStateSnapshot): string[] => {
+  const lines = [`${snapshot.name} props: ${JSON.stringify(snapshot.props)}`];
+  if (snapshot.state.length > 0) {
+    lines.push(`${snapshot.name} state: ${JSON.stringify(snapshot.state)}`);
+  }
+  for (const context of snapshot.context) {
+    lines.push(
+      `${snapshot.name} context ${context.name}: ${JSON.stringify(context.value)}`,
+    );
+  }
+  return lines;
+};
+
+const formatBoxEdges = (edges: BoxEdges): string =>
+  `${edges.top} ${edges.right} ${edges.bottom} ${edges.left}`;
+
+const formatDeclarations = (declarations: Record<string, string>): string =>
+  Object.entries(declarations)
+    .map(([property, value]) => `${property}: ${value};`)
+    .join(" ");
+
+const formatStyleContext = (styleContext: ElementStyleContext): string[] => {
+  const { boxModel } = styleContext;
+  const lines: string[] = [];
+  if (styleContext.classList.length > 0) {
+    lines.push(`class: ${styleContext.classList.join(" ")}`);
+  }
+  lines.push(
+    `box: ${boxModel.width}x${boxModel.height} (${boxModel.boxSizing}), margin ${formatBoxEdges(boxModel.margin)}, padding ${formatBoxEdges(boxModel.padding)}, border ${formatBoxEdges(boxModel.border)}`,
+  );
+  if (Object.keys(styleContext.computedStyles).length > 0) {
+    lines.push(`styles: ${formatDeclarations(styleContext.computedStyles)}`);
+  }
+  if (Object.keys(styleContext.cssVariables).length > 0) {
+    lines.push(`variables: ${formatDeclarations(styleContext.cssVariables)}`);
+  }
+  if (styleContext.mediaQueries.length > 0) {
+    lines.push(`media: ${styleContext.mediaQueries.join(", ")}`);
+  }
+  return lines;
+};
+
+const hasComponentState = (
+  record: ElementSnippetRecord,
+): record is ElementSnippetRecord & {
+  componentState: ComponentStateSnapshot[];
+} => Boolean(record.componentState && record.componentState.length > 0);
+
+export const formatElementSnippetAsText = (
+  record: ElementSnippetRecord,
+): string => {
+  const numberPrefix = record.index !== undefined ? `[${record.index}] ` : "";
+  const snippet = `${numberPrefix}${record.htmlPreview}${record.stack
+    .map((frame) => `\n  at ${formatStackFrame(frame)}`)
+    .join("")}`;
+
+  const sections = [snippet];
+  if (record.styleContext) {
+    sections.push(formatStyleContext(record.styleContext).join("\n"));
+  }
+  if (hasComponentState(record)) {
+    sections.push(
+      record.componentState.flatMap(formatComponentState).join("\n"),
+    );
+  }
+  return sections.join("\n\n");
+};
+
+const formatElementSnippetAsMarkdown = (
+  record: ElementSnippetRecord,
+): string => {
+  const numberPrefix = record.index !== undefined ? `${record.index}. ` : "";
+  const heading = record.componentName
+    ? `${numberPrefix}\`<${record.tagName}>\` in \`${record.componentName}\``
+    : `${numberPrefix}\`<${record.tagName}>\``;
+  const stackLines = record.stack.map(
+    (frame) => `- ${formatStackFrame(frame)}`,
+  );
+
+  const lines = [
+    heading,
+    "",
+    "```html",
+    record.htmlPreview,
+    "```",
+    ...stackLines,
+  ];
+
+  if (record.styleContext) {
+    lines.push("", "```", ...formatStyleContext(record.styleContext), "```");
+  }
+
+  if (hasComponentState(record)) {
+    lines.push(
+      "",
+      "```json",
+      JSON.stringify(record.componentState, null, 2),
+      "```",
+    );
+  }
+
+  return lines.join("\n");
+};
+
+const formatElementSnippetAsXml = (record: ElementSnippetRecord): string => {
+  const attributes: string[] = [];
+  if (record.index !== undefined) {
+    attributes.push(`index="${record.index}"`);
+  }
+  if (record.componentName) {
+    attributes.push(`component="${escapeMarkup(record.componentName)}"`);
+  }
+  if (record.fileName) {
+    attributes.push(`file="${escapeMarkup(record.fileName)}"`);
+  }
+  if (record.lineNumber !== null) {
+    attributes.push(`line="${record.lineNumber}"`);
+  }
+  if (record.columnNumber !== null) {
+    attributes.push(`column="${record.columnNumber}"`);
+  }
+
+  const openingTag =
+    attributes.length > 0
+      ? `<selected_element ${attributes.join(" ")}>`
+      : "<selected_element>";
+  const lines = [openingTag, "<html>", record.htmlPreview, "</html>"];
+  if (record.stack.length > 0) {
+    lines.push(
+      "<stack>",
+      ...record.stack.map((frame) => `at ${formatStackFrame(frame)}`),
+      "</stack>",
+    );
+  }
+  if (record.styleContext) {
+    lines.push(
+      "<style_context>",
+      ...formatStyleContext(record.styleContext),
+      "</style_context>",
+    );
+  }
+  if (hasComponentState(record)) {
+    lines.push(
+      "<component_state>",
+      JSON.stringify(record.componentState, null, 2),
+      "</component_state>",
+    );
+  }
+  lines.push("</selected_element>");
+
+  return lines.join("\n");
+};
+
+const formatStackFrameAsHtml = (frame: ElementSnippetFrame): string => {
+  if (frame.isServer || !frame.fileName) {
+    return escapeMarkup(formatStackFrame(frame));
+  }
+
+  const href = buildOpenFileUrl(frame.fileName, frame.lineNumber ?? undefined);
+  const location = formatFrameLocation(frame.fileName, frame);
+  return `${escapeMarkup(frame.name)} in <a href="${escapeMarkup(href)}">${escapeMarkup(location)}</a>`;
+};
+
+const formatCodeBlockAsHtml = (code: string): string =>
+  `<pre><code>${escapeMarkup(code)}</code></pre>`;
+
+const formatElementSnippetAsHtml = (record: ElementSnippetRecord): string => {
+  const numberPrefix = record.index !== undefined ? `${record.index}. ` : "";
+  const tag = `<code>${escapeMarkup(`<${record.tagName}>`)}</code>`;
+  const heading = record.componentName
+    ? `${numberPrefix}${tag} in <code>${escapeMarkup(record.componentName)}</code>`
+    : `${numberPrefix}${tag}`;
+
+  const blocks = [
+    `<p>${heading}</p>`,
+    formatCodeBlockAsHtml(record.htmlPreview),
+  ];
+  if (record.stack.length > 0) {
+    blocks.push(
+      `<ul>${record.stack
+        .map((frame) => `<li>${formatStackFrameAsHtml(frame)}</li>`)
+        .join("")}</ul>`,
+    );
+  }
+  if (record.styleContext) {
+    blocks.push(
+      formatCodeBlockAsHtml(formatStyleContext(record.styleContext).join("\n")),
+    );
+  }
+  if (hasComponentState(record)) {
+    blocks.push(
+      formatCodeBlockAsHtml(JSON.stringify(record.componentState, null, 2)),
+    );
+  }
+  return blocks.join("");
+};
+
+// NOTE: rich editors (Notion, Linear, Slack) paste this instead of the plain
+// text, keeping code blocks and turning source locations into links
+export const formatSnippetAsHtml = ({
+  elements,
+  prompt,
+}: SnippetFormatterContext): string => {
+  const blocks = elements.map(formatElementSnippetAsHtml);
+  if (prompt) {
+    blocks.unshift(`<p>${escapeMarkup(prompt)}</p>`);
+  }
+  return blocks.join("");
+};
+
+export const SNIPPET_FORMATTERS: Record<
+  Exclude<SnippetFormat, SnippetFormatter>,
+  SnippetFormatter
+> = {
+  text: ({ elements, prompt }) =>
+    withPrompt(elements.map(formatElementSnippetAsText).join("\n\n"), prompt),
+  markdown: ({ elements, prompt }) =>
+    withPrompt(
+      elements.map(formatElementSnippetAsMarkdown).join("\n\n"),
+      prompt,
+    ),
+  json: ({ elements, prompt }) =>
+    JSON.stringify(prompt ? { prompt, elements } : { elements }, null, 2),
+  xml: ({ elements, prompt }) => {
+    const blocks = elements.map(formatElementSnippetAsXml);
+    if (prompt) {
+      blocks.unshift(`<user_request>\n${prompt}\n</user_request>`);
+    }
+    return blocks.join("\n\n");
+  },
+};
+
+export const resolveSnippetFormatter = (
+  format: SnippetFormat = "text",
+): SnippetFormatter =>
+  typeof format === "function"
+    ? format
+    : (SNIPPET_FORMATTERS[format] ?? SNIPPET_FORMATTERS.text);
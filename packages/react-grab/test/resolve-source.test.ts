@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { decodeMappings, resolveSource } from "../src/utils/resolve-source.js";
+
+const originalFetch = globalThis.fetch;
+
+// NOTE: generated line 2 maps columns 0, 4 and 5 to original lines 2, 3 and 4,
+// so reading the 1-based stack column as 0-based lands on the wrong segment
+const SOURCE_MAP = {
+  version: 3,
+  sources: ["App.tsx"],
+  mappings: "AAAA;AACA,IACE,CACM",
+};
+
+const serveBundle = (bundleUrl: string, sourceMap: object) => {
+  const encodedSourceMap = Buffer.from(JSON.stringify(sourceMap)).toString(
+    "base64",
+  );
+  globalThis.fetch = (async (url: string) => {
+    assert.equal(url, bundleUrl);
+    return new Response(
+      `export const App = () => null;\n//# sourceMappingURL=data:application/json;base64,${encodedSourceMap}\n`,
+    );
+  }) as typeof fetch;
+};
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe("decodeMappings", () => {
+  it("decodes segments with one, four and five fields", () => {
+    assert.deepEqual(decodeMappings("AAAA,EAAE,CAAC;AACA,IAAIA,A,2HAAmB"), [
+      [
+        [0, 0, 0, 0],
+        [2, 0, 0, 2],
+        [3, 0, 0, 3],
+      ],
+      [[0, 0, 1, 3], [4, 0, 1, 7, 0], [4], [127, 0, 1, 26]],
+    ]);
+  });
+
+  it("keeps source fields relative across lines and resets the column", () => {
+    assert.deepEqual(decodeMappings("AAAA,KAAK;;EAAE,DADD"), [
+      [
+        [0, 0, 0, 0],
+        [5, 0, 0, 5],
+      ],
+      [],
+      [
+        [2, 0, 0, 7],
+        [1, 0, -1, 6],
+      ],
+    ]);
+  });
+
+  it("skips segments with characters outside base64", () => {
+    assert.deepEqual(decodeMappings("AAAA,!!,EAAE"), [
+      [
+        [0, 0, 0, 0],
+        [2, 0, 0, 2],
+      ],
+    ]);
+  });
+});
+
+describe("resolveSource", () => {
+  it("converts between 1-based stack columns and 0-based map columns", async () => {
+    const bundleUrl = "http://localhost:5173/src/App.tsx?t=1";
+    serveBundle(bundleUrl, SOURCE_MAP);
+
+    assert.deepEqual(
+      await resolveSource({
+        fileName: bundleUrl,
+        lineNumber: 2,
+        columnNumber: 5,
+      }),
+      { fileName: "/src/App.tsx", lineNumber: 3, columnNumber: 3 },
+    );
+  });
+
+  it("returns the original source when the bundle has no source map", async () => {
+    const bundleUrl = "http://localhost:5173/src/App.tsx?t=2";
+    globalThis.fetch = (async () =>
+      new Response("export const App = () => null;\n")) as typeof fetch;
+
+    const source = { fileName: bundleUrl, lineNumber: 2, columnNumber: 5 };
+    assert.deepEqual(await resolveSource(source), source);
+  });
+});